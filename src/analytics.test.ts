@@ -0,0 +1,80 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { findCycles, nodeMatcher } from "./analytics.js";
+import type { GraphEdge, GraphNode } from "./schemas.js";
+
+const node = (path: string, name: string): GraphNode => ({ id: `${path}::${name}`, name, path, kind: "function" });
+
+const edge = (source: GraphNode, target: GraphNode, relation = "calls"): GraphEdge => ({ source: source.id, target: target.id, relation });
+
+describe("nodeMatcher", () => {
+	const matches = (patterns: string[], ...nodes: GraphNode[]) => nodes.map(nodeMatcher(patterns));
+
+	it("keeps * and ? within one folder and lets ** span folders", () => {
+		const shallow = node("src/ui/button.ts", "render");
+		const deep = node("src/ui/forms/input.ts", "render");
+		assert.deepEqual(matches(["src/ui/*"], shallow, deep), [true, false]);
+		assert.deepEqual(matches(["src/ui/**"], shallow, deep), [true, true]);
+		assert.deepEqual(matches(["src/**/input.ts"], shallow, deep), [false, true]);
+		assert.deepEqual(matches(["src/ui/butto?.ts"], shallow, deep), [true, false]);
+	});
+
+	it("lets **/ match no folder at all", () => {
+		assert.deepEqual(matches(["**/main.ts"], node("main.ts", "run"), node("bin/main.ts", "run")), [true, true]);
+	});
+
+	it("matches names and IDs as well as paths, as whole strings", () => {
+		const gateway = node("src/pay.ts", "PaymentGatewayStripe");
+		const other = node("src/pay.ts", "LegacyPaymentGateway");
+		assert.deepEqual(matches(["PaymentGateway*"], gateway, other), [true, false]);
+		assert.deepEqual(matches(["src/pay.ts::Legacy*"], gateway, other), [false, true]);
+	});
+
+	it("treats regular expression characters literally", () => {
+		assert.deepEqual(matches(["a+b.(ts)"], node("a+b.(ts)", "x"), node("aab.ts", "x")), [true, false]);
+	});
+});
+
+describe("findCycles", () => {
+	const a = node("src/a.ts", "a");
+	const b = node("src/b.ts", "b");
+	const c = node("src/c.ts", "c");
+	const d = node("lib/d.ts", "d");
+	const e = node("lib/e.ts", "e");
+
+	it("finds each loop once, largest first, with one concrete path through it", () => {
+		const cycles = findCycles({
+			nodes: [a, b, c, d, e],
+			edges: [edge(a, b), edge(b, c), edge(c, a), edge(c, b), edge(d, e), edge(e, d, "imports"), edge(c, d)],
+		}, { level: "symbol", relations: ["calls", "imports"] });
+
+		assert.deepEqual(cycles.map(cycle => cycle.members), [[a.id, b.id, c.id], [d.id, e.id]]);
+		assert.deepEqual(cycles[0].cycle, [a.id, b.id, c.id, a.id]);
+		assert.equal(cycles[0].edges.length, 4);
+		assert.deepEqual(cycles[1].edges.map(cycleEdge => cycleEdge.relation), ["calls", "imports"]);
+	});
+
+	it("only follows the requested relations and stays in scope", () => {
+		const graph = { nodes: [a, b, d, e], edges: [edge(a, b), edge(b, a, "extends"), edge(d, e), edge(e, d)] };
+		assert.deepEqual(findCycles(graph, { level: "symbol", relations: ["calls"] }).map(cycle => cycle.members), [[d.id, e.id]]);
+		assert.deepEqual(findCycles(graph, { level: "symbol", relations: ["calls", "extends"], scope: "src" }).map(cycle => cycle.members), [[a.id, b.id]]);
+	});
+
+	it("collapses nodes to folders and ignores dependencies inside one unit", () => {
+		const cycles = findCycles({
+			nodes: [a, b, d],
+			edges: [edge(a, b), edge(b, a), edge(a, d), edge(d, b)],
+		}, { level: "folder", relations: ["calls"] });
+
+		assert.deepEqual(cycles.map(cycle => cycle.cycle), [["lib", "src", "lib"]]);
+	});
+
+	it("walks long chains without running out of stack", () => {
+		const chain = Array.from({ length: 20000 }, (_, index) => node("src/chain.ts", `f${index}`));
+		const edges = chain.map((from, index) => edge(from, chain[(index + 1) % chain.length]));
+		const [cycle] = findCycles({ nodes: chain, edges }, { level: "symbol", relations: ["calls"] });
+
+		assert.equal(cycle.members.length, chain.length);
+		assert.equal(cycle.cycle.length, chain.length + 1);
+	});
+});
@@ -0,0 +1,301 @@
+import type { GraphEdge, GraphNode } from "./schemas.js";
+import { matchesRelation, TraversalRelation } from "./traversal.js";
+
+/**
+ * Structural analysis over a whole graph: the most depended-on nodes, cycles
+ * between files or folders, and functionalities nothing refers to. Every
+ * analysis can be scoped to a folder of the graph.
+ */
+
+/**
+ * Granularity of an analysis: single functionalities, or everything declared
+ * in the same file or folder counted as one unit
+ */
+export type AnalysisLevel = "symbol" | "file" | "folder";
+
+export type CodeGraph = {
+	nodes: GraphNode[];
+	edges: GraphEdge[];
+};
+
+export type Hotspot = GraphNode & {
+	/** Distinct units depending on this one */
+	fanIn: number;
+	/** Distinct units this one depends on */
+	fanOut: number;
+};
+
+export type Cycle = {
+	/** Units of the strongly connected component, sorted */
+	members: string[];
+	/** One concrete loop through the component, ending where it starts */
+	cycle: string[];
+	/** Dependencies between the members */
+	edges: GraphEdge[];
+};
+
+// Kinds reported as dead code; interfaces and constants are mostly used as types or values, which the graph does not record
+const DEAD_CODE_KINDS = new Set(["function", "class", "method"]);
+
+// ============================================================================
+// Units
+// ============================================================================
+
+const normalizeScope = (scope?: string): string => (scope ?? "").replace(/^\.?\/+/, "").replace(/\/+$/, "");
+
+/**
+ * Whether a path lies in the folder (or is the file) `scope`; an empty scope covers everything
+ */
+export const inScope = (path: string, scope?: string): boolean => {
+	const prefix = normalizeScope(scope);
+	return !prefix || prefix === "." || path === prefix || path.startsWith(`${prefix}/`);
+};
+
+const folderOf = (path: string): string => path.includes("/") ? path.slice(0, path.lastIndexOf("/")) : ".";
+
+// The unit a node counts towards at a level, or undefined when the level leaves it out
+const unitOf = (node: GraphNode, level: AnalysisLevel): string | undefined => {
+	if (level === "symbol") return node.kind === "file" ? undefined : node.id;
+	if (!node.path || node.path === "global") return undefined;
+	return level === "file" ? node.path : folderOf(node.path);
+};
+
+type UnitGraph = {
+	units: Map<string, GraphNode>;
+	/** source unit -> target unit -> relations between them */
+	dependencies: Map<string, Map<string, Set<string>>>;
+	dependents: Map<string, Set<string>>;
+};
+
+/**
+ * Collapse the graph to units of one level, keeping the dependencies between
+ * different units along the given relations
+ */
+const unitGraph = ({ nodes, edges }: CodeGraph, level: AnalysisLevel, relations: readonly TraversalRelation[]): UnitGraph => {
+	const units = new Map<string, GraphNode>();
+	const unitByNode = new Map<string, string>();
+	for (const node of nodes) {
+		const unit = unitOf(node, level);
+		if (!unit) continue;
+		unitByNode.set(node.id, unit);
+		if (!units.has(unit)) {
+			units.set(unit, level === "symbol" ? node : { id: unit, name: unit, path: unit, kind: level });
+		}
+	}
+
+	const dependencies = new Map<string, Map<string, Set<string>>>();
+	const dependents = new Map<string, Set<string>>();
+	for (const edge of edges) {
+		if (!matchesRelation(edge.relation, relations)) continue;
+		const source = unitByNode.get(edge.source);
+		const target = unitByNode.get(edge.target);
+		if (!source || !target || source === target) continue;
+
+		if (!dependencies.has(source)) dependencies.set(source, new Map());
+		const targets = dependencies.get(source)!;
+		if (!targets.has(target)) targets.set(target, new Set());
+		targets.get(target)!.add(edge.relation);
+		if (!dependents.has(target)) dependents.set(target, new Set());
+		dependents.get(target)!.add(source);
+	}
+	return { units, dependencies, dependents };
+};
+
+// ============================================================================
+// Patterns
+// ============================================================================
+
+const escapeRegExp = (text: string): string => text.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+
+// Match a glob against a whole string: `**` spans folders, `*` and `?` stay within one
+const globPattern = (pattern: string): RegExp =>
+	new RegExp(`^${pattern.split(/(\*\*\/|\*\*|\*|\?)/).map(part =>
+		part === "**/" ? "(?:.*/)?" : part === "**" ? ".*" : part === "*" ? "[^/]*" : part === "?" ? "[^/]" : escapeRegExp(part)).join("")}$`);
+
+/**
+ * Whether a node matches any of the globs, by path, name or ID. Examples:
+ * 'src/ui/**', 'PaymentGateway*', 'main'
+ */
+export const nodeMatcher = (patterns: readonly string[]): ((node: GraphNode) => boolean) => {
+	const compiled = patterns.map(globPattern);
+	return node => compiled.some(pattern => pattern.test(node.path) || pattern.test(node.name) || pattern.test(node.id));
+};
+
+// ============================================================================
+// Hotspots
+// ============================================================================
+
+/**
+ * Units of the scope ranked by fan-in (or fan-out), most connected first.
+ * Dependents outside the scope count too: a folder's hotspots are what the
+ * rest of the code leans on.
+ */
+export const findHotspots = (
+	graph: CodeGraph,
+	{ level, relations, scope, sortBy }: { level: AnalysisLevel; relations: readonly TraversalRelation[]; scope?: string; sortBy: "fanIn" | "fanOut" },
+): Hotspot[] => {
+	const { units, dependencies, dependents } = unitGraph(graph, level, relations);
+	const other = sortBy === "fanIn" ? "fanOut" : "fanIn";
+	return [...units.entries()]
+		.filter(([, node]) => inScope(node.path, scope))
+		.map(([unit, node]) => ({
+			...node,
+			fanIn: dependents.get(unit)?.size ?? 0,
+			fanOut: dependencies.get(unit)?.size ?? 0,
+		}))
+		.filter(hotspot => hotspot[sortBy] > 0)
+		.sort((a, b) => b[sortBy] - a[sortBy] || b[other] - a[other] || a.id.localeCompare(b.id));
+};
+
+// ============================================================================
+// Cycles
+// ============================================================================
+
+// Strongly connected components with more than one unit (Tarjan, iterative to survive deep graphs)
+const stronglyConnected = (units: string[], next: (unit: string) => string[]): string[][] => {
+	const index = new Map<string, number>();
+	const lowLink = new Map<string, number>();
+	const stack: string[] = [];
+	const onStack = new Set<string>();
+	const components: string[][] = [];
+	let counter = 0;
+
+	for (const root of units) {
+		if (index.has(root)) continue;
+		const work: { unit: string; neighbours: string[]; position: number }[] = [];
+		const enter = (unit: string) => {
+			index.set(unit, counter);
+			lowLink.set(unit, counter++);
+			stack.push(unit);
+			onStack.add(unit);
+			work.push({ unit, neighbours: next(unit), position: 0 });
+		};
+		enter(root);
+
+		while (work.length) {
+			const frame = work[work.length - 1];
+			if (frame.position < frame.neighbours.length) {
+				const neighbour = frame.neighbours[frame.position++];
+				if (!index.has(neighbour)) {
+					enter(neighbour);
+				} else if (onStack.has(neighbour)) {
+					lowLink.set(frame.unit, Math.min(lowLink.get(frame.unit)!, index.get(neighbour)!));
+				}
+				continue;
+			}
+
+			work.pop();
+			const parent = work[work.length - 1];
+			if (parent) {
+				lowLink.set(parent.unit, Math.min(lowLink.get(parent.unit)!, lowLink.get(frame.unit)!));
+			}
+			if (lowLink.get(frame.unit) === index.get(frame.unit)) {
+				const component: string[] = [];
+				let unit: string;
+				do {
+					unit = stack.pop()!;
+					onStack.delete(unit);
+					component.push(unit);
+				} while (unit !== frame.unit);
+				if (component.length > 1) components.push(component.sort());
+			}
+		}
+	}
+	return components;
+};
+
+// Shortest loop from `start` back to itself, staying inside the component
+const loopThrough = (start: string, members: Set<string>, next: (unit: string) => string[]): string[] => {
+	const previous = new Map<string, string>();
+	const queue = [start];
+	while (queue.length) {
+		const unit = queue.shift()!;
+		for (const neighbour of next(unit)) {
+			if (!members.has(neighbour)) continue;
+			if (neighbour === start) {
+				const path = [unit];
+				while (path[0] !== start) path.unshift(previous.get(path[0])!);
+				return [...path, start];
+			}
+			if (!previous.has(neighbour)) {
+				previous.set(neighbour, unit);
+				queue.push(neighbour);
+			}
+		}
+	}
+	return [start];
+};
+
+/**
+ * Groups of units of the scope that depend on each other in a loop, largest first
+ */
+export const findCycles = (
+	graph: CodeGraph,
+	{ level, relations, scope }: { level: AnalysisLevel; relations: readonly TraversalRelation[]; scope?: string },
+): Cycle[] => {
+	const { units, dependencies } = unitGraph(graph, level, relations);
+	const scoped = [...units.entries()].filter(([, node]) => inScope(node.path, scope)).map(([unit]) => unit).sort();
+	const scopedSet = new Set(scoped);
+	const next = (unit: string) => [...(dependencies.get(unit)?.keys() ?? [])].filter(target => scopedSet.has(target)).sort();
+
+	return stronglyConnected(scoped, next)
+		.map(members => {
+			const memberSet = new Set(members);
+			const edges = members.flatMap(source =>
+				next(source)
+					.filter(target => memberSet.has(target))
+					.flatMap(target => [...dependencies.get(source)!.get(target)!].sort().map(relation => ({ source, target, relation }))));
+			return { members, cycle: loopThrough(members[0], memberSet, next), edges };
+		})
+		.sort((a, b) => b.members.length - a.members.length || a.members[0].localeCompare(b.members[0]));
+};
+
+// ============================================================================
+// Dead Code
+// ============================================================================
+
+/**
+ * Functions, classes and methods of the scope that no other node calls,
+ * instantiates or inherits from. Nodes matching an entry point pattern (by
+ * path, name or ID) are left out, as are constructors, classes whose members
+ * are used, and methods of classes that extend or implement another type,
+ * which may be called through it.
+ */
+export const findDeadCode = (
+	{ nodes, edges }: CodeGraph,
+	{ scope, entryPoints }: { scope?: string; entryPoints: readonly string[] },
+): GraphNode[] => {
+	const isEntryPoint = nodeMatcher(entryPoints);
+
+	const parentOf = new Map<string, string>();
+	for (const edge of edges) {
+		if (edge.relation === "contains") parentOf.set(edge.target, edge.source);
+	}
+	const withAncestors = (id: string): string[] => {
+		const chain = [id];
+		for (let parent = parentOf.get(id); parent; parent = parentOf.get(parent)) chain.push(parent);
+		return chain;
+	};
+
+	// A class is in use when any of its members is used from outside it
+	const referenced = new Set<string>();
+	const inherits = new Set<string>();
+	for (const edge of edges) {
+		if (edge.relation === "contains" || edge.source === edge.target) continue;
+		const user = new Set(withAncestors(edge.source));
+		for (const id of withAncestors(edge.target)) {
+			if (id === edge.target || !user.has(id)) referenced.add(id);
+		}
+		if (edge.relation === "extends" || edge.relation === "implements") inherits.add(edge.source);
+	}
+
+	return nodes
+		.filter(node => DEAD_CODE_KINDS.has(node.kind ?? "") && inScope(node.path, scope))
+		.filter(node => !referenced.has(node.id) && !isEntryPoint(node))
+		.filter(node => {
+			if (node.kind !== "method") return true;
+			const parent = parentOf.get(node.id);
+			return !node.name.endsWith(".constructor") && !(parent && inherits.has(parent));
+		})
+		.sort((a, b) => a.path.localeCompare(b.path) || (a.startLine ?? 0) - (b.startLine ?? 0) || a.id.localeCompare(b.id));
+};
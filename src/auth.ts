@@ -0,0 +1,126 @@
+import { createHash } from "crypto";
+import type { Request } from "express";
+
+/**
+ * CodeGPT credentials a server token grants. Missing values fall back to the
+ * CODEGPT_* environment variables.
+ */
+export type TokenGrant = {
+	apiKey?: string;
+	orgId?: string;
+};
+
+export type AuthOptions = {
+	/** Server tokens allowed to use the endpoint, by SHA-256 hash; empty to accept CodeGPT keys as tokens */
+	tokens: Map<string, TokenGrant>;
+	/** Accept config.apiKey / config.orgId in the query string */
+	allowQueryCredentials: boolean;
+	/** Allowed browser origins, "*" for any; empty to refuse cross-origin requests */
+	corsOrigins: string[] | "*";
+	/** Serve /metrics without authentication, e.g. to a scraper on a private network */
+	publicMetrics: boolean;
+};
+
+/**
+ * The caller of an HTTP request, once authenticated
+ */
+export type Principal = {
+	/** Stable, non-secret identifier (hash of the presented credential) */
+	id: string;
+	apiKey?: string;
+	orgId?: string;
+};
+
+export type AuthResult =
+	| { principal: Principal; status?: undefined; error?: undefined }
+	| { principal?: undefined; status: 400 | 401; error: string };
+
+const QUERY_CREDENTIALS = ["config.apiKey", "config.orgId"];
+
+const hashToken = (token: string): string => createHash("sha256").update(token).digest("hex");
+
+/**
+ * Parse MCP_AUTH_TOKENS: comma separated `token`, `token=apiKey` or
+ * `token=apiKey:orgId` entries
+ */
+const parseTokens = (value: string): Map<string, TokenGrant> => {
+	const tokens = new Map<string, TokenGrant>();
+	for (const entry of value.split(",").map(part => part.trim()).filter(Boolean)) {
+		const [token, grant = ""] = entry.split("=", 2);
+		const [apiKey, orgId] = grant.split(":", 2);
+		tokens.set(hashToken(token.trim()), { apiKey: apiKey?.trim() || undefined, orgId: orgId?.trim() || undefined });
+	}
+	return tokens;
+};
+
+/**
+ * Read the HTTP auth settings from the environment
+ */
+export const loadAuthOptions = (): AuthOptions => {
+	const origins = (process.env.MCP_CORS_ORIGINS || "").split(",").map(origin => origin.trim()).filter(Boolean);
+	return {
+		tokens: parseTokens(process.env.MCP_AUTH_TOKENS || ""),
+		allowQueryCredentials: process.env.MCP_ALLOW_QUERY_CREDENTIALS === "true",
+		corsOrigins: origins.includes("*") ? "*" : origins,
+		publicMetrics: process.env.MCP_PUBLIC_METRICS === "true",
+	};
+};
+
+const bearerToken = (req: Request): string | undefined => {
+	const match = req.headers.authorization?.match(/^Bearer\s+(.+)$/i);
+	return match?.[1].trim() || undefined;
+};
+
+/**
+ * Read a single string query parameter, ignoring repeated or nested values
+ */
+export const queryParam = (req: Request, name: string): string | undefined => {
+	const value = req.query[name];
+	return typeof value === "string" && value ? value : undefined;
+};
+
+const header = (req: Request, name: string): string | undefined => {
+	const value = req.headers[name];
+	return typeof value === "string" && value ? value : undefined;
+};
+
+/**
+ * Authenticate an MCP request.
+ *
+ * With an allow-list, the bearer token must be one of the server tokens and
+ * the session uses the credentials mapped to it. Without one, the bearer
+ * token is the caller's own CodeGPT API key (organization in the
+ * `X-CodeGPT-Org-Id` header), so the server's own key is never lent out.
+ */
+export const authenticate = (req: Request, options: AuthOptions): AuthResult => {
+	const queryCredentials = QUERY_CREDENTIALS.filter(name => req.query[name] !== undefined);
+	if (queryCredentials.length && !options.allowQueryCredentials) {
+		return {
+			status: 400,
+			error: `Credentials in the query string (${queryCredentials.join(", ")}) are disabled. Send them as 'Authorization: Bearer <token>' instead.`,
+		};
+	}
+
+	const token = bearerToken(req);
+
+	if (options.tokens.size) {
+		const id = token && hashToken(token);
+		const grant = id ? options.tokens.get(id) : undefined;
+		if (!id || !grant) {
+			return { status: 401, error: token ? "Invalid bearer token" : "Bearer token required" };
+		}
+		return { principal: { id, ...grant } };
+	}
+
+	const apiKey = token ?? (options.allowQueryCredentials ? queryParam(req, "config.apiKey") : undefined);
+	if (!apiKey) {
+		return { status: 401, error: "CodeGPT API key required. Send it as 'Authorization: Bearer <API key>'." };
+	}
+	return {
+		principal: {
+			id: hashToken(apiKey),
+			apiKey,
+			orgId: header(req, "x-codegpt-org-id") ?? (options.allowQueryCredentials ? queryParam(req, "config.orgId") : undefined),
+		},
+	};
+};
@@ -0,0 +1,347 @@
+import { readdir, stat } from "fs/promises";
+import { basename, join, relative, resolve, sep } from "path";
+import ts from "typescript";
+
+export type NodeKind = "file" | "class" | "interface" | "function" | "method" | "constant";
+
+export type EdgeRelation = "contains" | "calls" | "imports" | "extends" | "implements";
+
+export type IndexedNode = {
+	/** Unique `path::name` identifier */
+	id: string;
+	name: string;
+	/** Path relative to the indexed root, always with forward slashes */
+	path: string;
+	kind: NodeKind;
+	startLine: number;
+	endLine: number;
+	code: string;
+	doc: string;
+	/** Declaration without its body, e.g. `export function parse(text: string): Node[]` */
+	signature: string;
+};
+
+export type IndexedEdge = {
+	source: string;
+	target: string;
+	relation: EdgeRelation;
+};
+
+/**
+ * In-memory code graph of a local directory
+ */
+export type LocalGraph = {
+	root: string;
+	files: string[];
+	nodes: Map<string, IndexedNode>;
+	edges: IndexedEdge[];
+	outgoing: Map<string, IndexedEdge[]>;
+	incoming: Map<string, IndexedEdge[]>;
+};
+
+const SOURCE_EXTENSIONS = [".ts", ".tsx", ".mts", ".cts", ".js", ".jsx", ".mjs", ".cjs"];
+const IGNORED_DIRECTORIES = new Set(["node_modules", "dist", "build", "coverage", "out"]);
+
+export const nodeId = (path: string, name: string): string => `${path}::${name}`;
+
+const isSourceFile = (file: string): boolean =>
+	SOURCE_EXTENSIONS.some(ext => file.endsWith(ext)) && !/\.d\.[mc]?ts$/.test(file);
+
+/**
+ * Recursively list source files under `root`, with their modification
+ * signature so callers can tell when the index is stale
+ */
+export const listSourceFiles = async (root: string): Promise<{ files: string[]; signature: string }> => {
+	const files: string[] = [];
+	const parts: string[] = [];
+
+	const walk = async (dir: string): Promise<void> => {
+		const entries = await readdir(dir, { withFileTypes: true });
+		for (const entry of entries) {
+			if (entry.name.startsWith(".")) continue;
+			const full = join(dir, entry.name);
+			if (entry.isDirectory()) {
+				if (!IGNORED_DIRECTORIES.has(entry.name)) {
+					await walk(full);
+				}
+			} else if (entry.isFile() && isSourceFile(entry.name)) {
+				const { mtimeMs, size } = await stat(full);
+				files.push(full);
+				parts.push(`${full}:${mtimeMs}:${size}`);
+			}
+		}
+	};
+
+	await walk(root);
+	files.sort();
+	parts.sort();
+	return { files, signature: parts.join("\n") };
+};
+
+// Compiler options from the project's tsconfig.json when present, so path
+// aliases and module resolution match the project's own build
+const compilerOptionsFor = (root: string): ts.CompilerOptions => {
+	const defaults: ts.CompilerOptions = {
+		target: ts.ScriptTarget.ES2022,
+		module: ts.ModuleKind.ESNext,
+		moduleResolution: ts.ModuleResolutionKind.Bundler,
+		jsx: ts.JsxEmit.Preserve,
+	};
+
+	const configPath = ts.findConfigFile(root, ts.sys.fileExists, "tsconfig.json");
+	let options = defaults;
+	if (configPath && resolve(configPath).startsWith(resolve(root))) {
+		const { config } = ts.readConfigFile(configPath, ts.sys.readFile);
+		if (config) {
+			options = ts.parseJsonConfigFileContent(config, ts.sys, root).options;
+		}
+	}
+
+	return { ...options, allowJs: true, noEmit: true, skipLibCheck: true };
+};
+
+const MAX_SIGNATURE_LENGTH = 200;
+
+// Where the body of a declaration starts, if it has one
+const bodyStart = (sf: ts.SourceFile, node: ts.Node): number | undefined => {
+	if (ts.isClassLike(node) || ts.isInterfaceDeclaration(node)) {
+		return sf.text.lastIndexOf("{", node.members.pos);
+	}
+	if (ts.isVariableStatement(node) || ts.isVariableDeclaration(node)) {
+		const declaration = ts.isVariableStatement(node) ? node.declarationList.declarations[0] : node;
+		const init = declaration?.initializer;
+		if (init && (ts.isArrowFunction(init) || ts.isFunctionExpression(init))) return bodyStart(sf, init);
+		return init ? init.getStart(sf) : undefined;
+	}
+	if (ts.isFunctionLike(node) && "body" in node && node.body) {
+		return (node.body as ts.Node).getStart(sf);
+	}
+	return undefined;
+};
+
+/**
+ * The declaration up to its body, on one line
+ */
+const signatureOf = (sf: ts.SourceFile, node: ts.Node): string => {
+	const start = node.getStart(sf);
+	const end = bodyStart(sf, node) ?? node.getEnd();
+	const signature = sf.text
+		.slice(start, end > start ? end : node.getEnd())
+		.replace(/\s+/g, " ")
+		.replace(/\s*(=>|=|\{)?\s*$/, "");
+	return signature.length > MAX_SIGNATURE_LENGTH ? `${signature.slice(0, MAX_SIGNATURE_LENGTH)}…` : signature;
+};
+
+const isExported = (node: ts.Node): boolean =>
+	ts.canHaveModifiers(node) && !!ts.getModifiers(node)?.some(modifier => modifier.kind === ts.SyntaxKind.ExportKeyword);
+
+/**
+ * Parse every source file under `root` with the TypeScript compiler and build
+ * nodes for files, classes, interfaces, functions, methods and exported
+ * constants, linked by contains, calls, imports, extends and implements edges
+ */
+export const buildLocalGraph = (root: string, files: string[]): LocalGraph => {
+	const program = ts.createProgram(files, compilerOptionsFor(root));
+	const checker = program.getTypeChecker();
+	const fileSet = new Set(files.map(file => resolve(file)));
+
+	const nodes = new Map<string, IndexedNode>();
+	const edges: IndexedEdge[] = [];
+	const edgeKeys = new Set<string>();
+	// Declarations mapped to the graph node they produced
+	const declarations = new Map<ts.Node, string>();
+	const fileNodes = new Map<ts.SourceFile, string>();
+
+	const relPath = (file: string): string => relative(root, file).split(sep).join("/");
+
+	const addEdge = (source: string, target: string, relation: EdgeRelation) => {
+		if (source === target) return;
+		const key = `${source}\n${target}\n${relation}`;
+		if (edgeKeys.has(key)) return;
+		edgeKeys.add(key);
+		edges.push({ source, target, relation });
+	};
+
+	const addNode = (
+		sf: ts.SourceFile,
+		declaration: ts.Node,
+		codeNode: ts.Node,
+		name: string,
+		kind: NodeKind,
+		parent: string,
+		symbolNode?: ts.Node,
+	): string => {
+		const path = relPath(sf.fileName);
+		const id = nodeId(path, name);
+		const symbol = symbolNode ? checker.getSymbolAtLocation(symbolNode) : undefined;
+		nodes.set(id, {
+			id,
+			name,
+			path,
+			kind,
+			startLine: sf.getLineAndCharacterOfPosition(codeNode.getStart(sf)).line + 1,
+			endLine: sf.getLineAndCharacterOfPosition(codeNode.getEnd()).line + 1,
+			code: codeNode.getText(sf),
+			doc: symbol ? ts.displayPartsToString(symbol.getDocumentationComment(checker)) : "",
+			signature: signatureOf(sf, codeNode),
+		});
+		declarations.set(declaration, id);
+		addEdge(parent, id, "contains");
+		return id;
+	};
+
+	const sourceFiles = program.getSourceFiles().filter(sf => fileSet.has(resolve(sf.fileName)));
+
+	// First pass: declarations
+	for (const sf of sourceFiles) {
+		const path = relPath(sf.fileName);
+		const fileId = nodeId(path, basename(path));
+		nodes.set(fileId, {
+			id: fileId,
+			name: basename(path),
+			path,
+			kind: "file",
+			startLine: 1,
+			endLine: sf.getLineAndCharacterOfPosition(sf.getEnd()).line + 1,
+			code: sf.text,
+			doc: "",
+			signature: "",
+		});
+		fileNodes.set(sf, fileId);
+
+		const visitClassMembers = (cls: ts.ClassLikeDeclaration, className: string, classId: string) => {
+			for (const member of cls.members) {
+				if (!member.name && !ts.isConstructorDeclaration(member)) continue;
+				const memberName = ts.isConstructorDeclaration(member) ? "constructor" : member.name!.getText(sf);
+				const isFunctionProperty = ts.isPropertyDeclaration(member)
+					&& !!member.initializer
+					&& (ts.isArrowFunction(member.initializer) || ts.isFunctionExpression(member.initializer));
+				if (
+					ts.isMethodDeclaration(member)
+					|| ts.isConstructorDeclaration(member)
+					|| ts.isGetAccessorDeclaration(member)
+					|| ts.isSetAccessorDeclaration(member)
+					|| isFunctionProperty
+				) {
+					addNode(sf, member, member, `${className}.${memberName}`, "method", classId, member.name);
+				}
+			}
+		};
+
+		const visit = (node: ts.Node, prefix: string, parent: string) => {
+			if (ts.isClassDeclaration(node) && node.name) {
+				const name = `${prefix}${node.name.text}`;
+				const id = addNode(sf, node, node, name, "class", parent, node.name);
+				visitClassMembers(node, name, id);
+				return;
+			}
+			if (ts.isInterfaceDeclaration(node)) {
+				addNode(sf, node, node, `${prefix}${node.name.text}`, "interface", parent, node.name);
+				return;
+			}
+			if (ts.isFunctionDeclaration(node) && node.name) {
+				addNode(sf, node, node, `${prefix}${node.name.text}`, "function", parent, node.name);
+				return;
+			}
+			if (ts.isVariableStatement(node) && parent === fileId) {
+				for (const declaration of node.declarationList.declarations) {
+					const init = declaration.initializer;
+					if (!ts.isIdentifier(declaration.name)) continue;
+					if (init && (ts.isArrowFunction(init) || ts.isFunctionExpression(init))) {
+						addNode(sf, declaration, node, declaration.name.text, "function", parent, declaration.name);
+					} else if (isExported(node) && node.declarationList.flags & ts.NodeFlags.Const) {
+						addNode(sf, declaration, node, declaration.name.text, "constant", parent, declaration.name);
+					}
+				}
+				return;
+			}
+			if (ts.isModuleDeclaration(node) || ts.isModuleBlock(node)) {
+				ts.forEachChild(node, child => visit(child, prefix, parent));
+			}
+		};
+
+		ts.forEachChild(sf, child => visit(child, "", fileId));
+	}
+
+	// Resolve a reference to the graph nodes declaring it, following imports
+	const targetsOf = (reference: ts.Node): string[] => {
+		let symbol = checker.getSymbolAtLocation(reference);
+		if (!symbol) return [];
+		if (symbol.flags & ts.SymbolFlags.Alias) {
+			symbol = checker.getAliasedSymbol(symbol);
+		}
+		return (symbol.declarations ?? [])
+			.map(declaration => declarations.get(declaration))
+			.filter((id): id is string => !!id);
+	};
+
+	// Second pass: calls, imports and inheritance
+	for (const sf of sourceFiles) {
+		const fileId = fileNodes.get(sf)!;
+
+		const visit = (node: ts.Node, owner: string) => {
+			const declared = declarations.get(node);
+			if (declared) {
+				owner = declared;
+			}
+
+			if ((ts.isImportDeclaration(node) || ts.isExportDeclaration(node)) && node.moduleSpecifier) {
+				const moduleSymbol = checker.getSymbolAtLocation(node.moduleSpecifier);
+				const target = moduleSymbol?.valueDeclaration;
+				if (target && ts.isSourceFile(target) && fileNodes.has(target)) {
+					addEdge(fileId, fileNodes.get(target)!, "imports");
+				}
+			}
+
+			if (ts.isCallExpression(node) || ts.isNewExpression(node)) {
+				const callee = ts.isPropertyAccessExpression(node.expression) ? node.expression.name : node.expression;
+				for (const target of targetsOf(callee)) {
+					addEdge(owner, target, "calls");
+				}
+			}
+
+			// Reading a property backed by an accessor runs it
+			if (ts.isPropertyAccessExpression(node) && !(ts.isCallExpression(node.parent) && node.parent.expression === node)) {
+				const declarations = checker.getSymbolAtLocation(node.name)?.declarations ?? [];
+				if (declarations.some(declaration => ts.isGetAccessor(declaration) || ts.isSetAccessor(declaration))) {
+					for (const target of targetsOf(node.name)) {
+						addEdge(owner, target, "calls");
+					}
+				}
+			}
+
+			if ((ts.isClassLike(node) || ts.isInterfaceDeclaration(node)) && node.heritageClauses) {
+				for (const clause of node.heritageClauses) {
+					const relation = clause.token === ts.SyntaxKind.ImplementsKeyword ? "implements" : "extends";
+					for (const type of clause.types) {
+						for (const target of targetsOf(type.expression)) {
+							addEdge(owner, target, relation);
+						}
+					}
+				}
+			}
+
+			ts.forEachChild(node, child => visit(child, owner));
+		};
+
+		ts.forEachChild(sf, child => visit(child, fileId));
+	}
+
+	const outgoing = new Map<string, IndexedEdge[]>();
+	const incoming = new Map<string, IndexedEdge[]>();
+	for (const edge of edges) {
+		if (!outgoing.has(edge.source)) outgoing.set(edge.source, []);
+		if (!incoming.has(edge.target)) incoming.set(edge.target, []);
+		outgoing.get(edge.source)!.push(edge);
+		incoming.get(edge.target)!.push(edge);
+	}
+
+	return {
+		root,
+		files: sourceFiles.map(sf => relPath(sf.fileName)).sort(),
+		nodes,
+		edges,
+		outgoing,
+		incoming,
+	};
+};
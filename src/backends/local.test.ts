@@ -0,0 +1,50 @@
+import assert from "node:assert/strict";
+import { mkdirSync, mkdtempSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { describe, it } from "node:test";
+import { setTimeout as sleep } from "node:timers/promises";
+import { LocalBackend } from "./local.js";
+
+// A checkout with one source file, returning a function to rewrite it
+const checkout = (code: string): { root: string; write: (code: string) => void } => {
+	const root = mkdtempSync(join(tmpdir(), "codegraph-local-"));
+	mkdirSync(join(root, "src"));
+	const write = (next: string) => writeFileSync(join(root, "src", "main.ts"), next);
+	write(code);
+	return { root, write };
+};
+
+const names = async (backend: LocalBackend): Promise<string[]> =>
+	[...(await backend.load()).nodes.values()].filter(node => node.kind === "function").map(node => node.name);
+
+describe("LocalBackend.load", () => {
+	it("serves the index without looking at the files again until it is no longer fresh", async () => {
+		const { root, write } = checkout("export function first() {}\n");
+		const backend = new LocalBackend(root, 200);
+		assert.deepEqual(await names(backend), ["first"]);
+
+		write("export function first() {}\nexport function second() {}\n");
+		assert.deepEqual(await names(backend), ["first"]);
+		await sleep(250);
+		assert.deepEqual(await names(backend), ["first", "second"]);
+	});
+
+	it("shares one indexing between concurrent calls", async () => {
+		const backend = new LocalBackend(checkout("export function only() {}\n").root);
+		const [a, b] = await Promise.all([backend.load(), backend.load()]);
+		assert.equal(a, b);
+	});
+
+	it("stops waiting when the call's signal aborts, leaving the indexing to the other calls", async () => {
+		const backend = new LocalBackend(checkout("export function only() {}\n").root);
+		const controller = new AbortController();
+		const aborted = backend.load(controller.signal);
+		const other = backend.load();
+		controller.abort(new Error("cancelled"));
+
+		await assert.rejects(aborted, /cancelled/);
+		assert.ok((await other).nodes.size > 0);
+		await assert.rejects(backend.load(controller.signal), /cancelled/);
+	});
+});
@@ -0,0 +1,328 @@
+import { resolve } from "path";
+import type { GraphTarget, NodeQuery } from "../client.js";
+import type { GraphNode, OutlineSymbol, TreeEntry } from "../schemas.js";
+import { logger } from "../logger.js";
+import { IndexedEdge, IndexedNode, LocalGraph, buildLocalGraph, listSourceFiles } from "./indexer.js";
+import type { GraphBackend, NodesResult, OutlineResult, SubgraphResult, TreeResult } from "./types.js";
+
+const SEARCH_LIMIT = 10;
+// How long an index is served before the files on disk are checked for changes again
+const FRESH_FOR_MS = 2000;
+
+// Split identifiers and prose into lowercase words: "getUserById" -> get, user, by, id
+const tokenize = (text: string): string[] =>
+	text
+		.replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+		.toLowerCase()
+		.split(/[^a-z0-9]+/)
+		.filter(token => token.length > 1);
+
+const describeNode = (node: IndexedNode): string =>
+	`${node.id} (${node.kind}, lines ${node.startLine}-${node.endLine})`;
+
+export const toGraphNode = ({ id, name, path, kind, startLine, endLine, code }: IndexedNode, withCode = false): GraphNode => ({
+	id,
+	name,
+	path,
+	kind,
+	startLine,
+	endLine,
+	...(withCode ? { code } : null),
+});
+
+// Wait for work shared between calls, giving up (without cancelling it) when this call's signal aborts
+const untilAborted = <T>(work: Promise<T>, signal?: AbortSignal): Promise<T> => {
+	if (!signal) return work;
+	if (signal.aborted) return Promise.reject(signal.reason);
+	return new Promise((resolve, reject) => {
+		const onAbort = () => reject(signal.reason);
+		signal.addEventListener("abort", onAbort, { once: true });
+		work.then(resolve, reject).finally(() => signal.removeEventListener("abort", onAbort));
+	});
+};
+
+// Graph nodes for a set of IDs, skipping any that are not indexed
+const nodesFor = (graph: LocalGraph, ids: Iterable<string>): GraphNode[] =>
+	[...new Set(ids)]
+		.map(id => graph.nodes.get(id))
+		.filter((node): node is IndexedNode => !!node)
+		.map(node => toGraphNode(node));
+
+/**
+ * Backend answering the graph tools from a TypeScript/JavaScript checkout on
+ * disk, without any network access. The index is rebuilt whenever a source
+ * file is added, removed or modified, so uncommitted changes are visible; the
+ * files are checked at most once per `freshForMs`, so bursts of calls share
+ * one check.
+ */
+export class LocalBackend implements GraphBackend {
+	private graph?: LocalGraph;
+	private signature?: string;
+	private checkedAt = 0;
+	private building?: Promise<LocalGraph>;
+
+	constructor(readonly root: string, private readonly freshForMs = FRESH_FOR_MS) {}
+
+	/**
+	 * Return the current graph, re-indexing when files changed on disk
+	 */
+	async load(signal?: AbortSignal): Promise<LocalGraph> {
+		signal?.throwIfAborted();
+		if (this.graph && Date.now() - this.checkedAt < this.freshForMs) return this.graph;
+
+		this.building ??= (async () => {
+			const { files, signature } = await listSourceFiles(this.root);
+			if (!this.graph || signature !== this.signature) {
+				logger.info("Indexing source files", { root: this.root, files: files.length });
+				this.graph = buildLocalGraph(this.root, files);
+				this.signature = signature;
+			}
+			this.checkedAt = Date.now();
+			return this.graph;
+		})().finally(() => {
+			this.building = undefined;
+		});
+
+		return untilAborted(this.building, signal);
+	}
+
+	/**
+	 * Nodes matching an exact name, narrowed by path when given
+	 */
+	findNodes(graph: LocalGraph, { name, path }: NodeQuery): IndexedNode[] {
+		const normalizedPath = path?.replace(/^\.\//, "");
+		return [...graph.nodes.values()].filter(node =>
+			node.name === name && (!normalizedPath || node.path === normalizedPath)
+		);
+	}
+
+	async getCode(_target: GraphTarget, query: NodeQuery, signal?: AbortSignal): Promise<NodesResult> {
+		const matches = this.findNodes(await this.load(signal), query);
+		if (!matches.length) return { text: null, nodes: [] };
+
+		return {
+			text: matches
+				.map(node => `// ${describeNode(node)}\n${node.code}`)
+				.join("\n\n"),
+			nodes: matches.map(node => toGraphNode(node, true)),
+		};
+	}
+
+	async findDirectConnections(_target: GraphTarget, query: NodeQuery, signal?: AbortSignal): Promise<SubgraphResult> {
+		const graph = await this.load(signal);
+		const matches = this.findNodes(graph, query);
+		if (!matches.length) return { text: null, nodes: [], edges: [] };
+
+		const formatEdges = (edges: IndexedEdge[], direction: "outgoing" | "incoming"): string => {
+			if (!edges.length) return "- (none)";
+			return edges
+				.map(edge => direction === "outgoing"
+					? `- ${edge.relation} -> ${edge.target}`
+					: `- ${edge.relation} <- ${edge.source}`)
+				.join("\n");
+		};
+
+		const edges = matches.flatMap(node => [
+			...(graph.outgoing.get(node.id) ?? []),
+			...(graph.incoming.get(node.id) ?? []),
+		]);
+
+		const text = matches
+			.map(node => [
+				`Direct connections of ${describeNode(node)}`,
+				"",
+				"Outgoing (this node -> other):",
+				formatEdges(graph.outgoing.get(node.id) ?? [], "outgoing"),
+				"",
+				"Incoming (other -> this node):",
+				formatEdges(graph.incoming.get(node.id) ?? [], "incoming"),
+			].join("\n"))
+			.join("\n\n");
+
+		return {
+			text,
+			nodes: nodesFor(graph, [...matches.map(node => node.id), ...edges.flatMap(edge => [edge.source, edge.target])]),
+			edges,
+		};
+	}
+
+	async getUsageDependencyLinks(_target: GraphTarget, query: NodeQuery, signal?: AbortSignal): Promise<SubgraphResult> {
+		const graph = await this.load(signal);
+		const matches = this.findNodes(graph, query);
+		if (!matches.length) return { text: null, nodes: [], edges: [] };
+
+		// Walk dependents breadth-first; containment is not a usage
+		const edges: IndexedEdge[] = [];
+		const visited = new Set(matches.map(node => node.id));
+		const queue = [...visited];
+		while (queue.length) {
+			const current = queue.shift()!;
+			for (const edge of graph.incoming.get(current) ?? []) {
+				if (edge.relation === "contains") continue;
+				edges.push(edge);
+				if (!visited.has(edge.source)) {
+					visited.add(edge.source);
+					queue.push(edge.source);
+				}
+			}
+		}
+
+		return {
+			text: edges.length
+				? edges.map(edge => `${edge.source} -> ${edge.target}`).join("\n")
+				: `No functionalities depend on ${matches.map(node => node.id).join(", ")}`,
+			nodes: nodesFor(graph, visited),
+			edges,
+		};
+	}
+
+	async nodesSemanticSearch(_target: GraphTarget, query: string, signal?: AbortSignal): Promise<NodesResult> {
+		const graph = await this.load(signal);
+		const queryTokens = new Set(tokenize(query));
+		if (!queryTokens.size) return { text: null, nodes: [] };
+
+		// Offline there are no embeddings: rank by weighted keyword overlap
+		const scored = [...graph.nodes.values()]
+			.map(node => {
+				const score = (tokens: string[], weight: number) =>
+					tokens.filter(token => queryTokens.has(token)).length * weight;
+				return {
+					node,
+					score: score(tokenize(node.name), 3)
+						+ score(tokenize(node.doc), 2)
+						+ score(tokenize(node.path), 1),
+				};
+			})
+			.filter(({ score }) => score > 0)
+			.sort((a, b) => b.score - a.score)
+			.slice(0, SEARCH_LIMIT);
+
+		if (!scored.length) return { text: null, nodes: [] };
+		return {
+			text: scored
+				.map(({ node, score }) => `- ${describeNode(node)} [score ${score}]${node.doc ? `\n  ${node.doc.split("\n")[0]}` : ""}`)
+				.join("\n"),
+			nodes: scored.map(({ node, score }) => ({ ...toGraphNode(node), score })),
+		};
+	}
+
+	async fileNodes(_target: GraphTarget, path: string, signal?: AbortSignal): Promise<NodesResult> {
+		const graph = await this.load(signal);
+		const normalizedPath = path.replace(/^\.\//, "");
+		const nodes = [...graph.nodes.values()]
+			.filter(node => node.path === normalizedPath)
+			.sort((a, b) => a.startLine - b.startLine || b.endLine - a.endLine);
+		if (!nodes.length) return { text: null, nodes: [] };
+
+		return {
+			text: nodes.map(node => `- ${describeNode(node)}`).join("\n"),
+			nodes: nodes.map(node => toGraphNode(node)),
+		};
+	}
+
+	async fileOutline(_target: GraphTarget, path: string, signal?: AbortSignal): Promise<OutlineResult> {
+		const graph = await this.load(signal);
+		const prefix = path.replace(/^\.?\/+/, "").replace(/\/+$/, "");
+		const inScope = (file: string) => !prefix || file === prefix || file.startsWith(`${prefix}/`);
+		const nodes = [...graph.nodes.values()]
+			.filter(node => node.kind !== "file" && inScope(node.path))
+			.sort((a, b) => a.path.localeCompare(b.path) || a.startLine - b.startLine || b.endLine - a.endLine);
+		if (!nodes.length) return { text: null, symbols: [] };
+
+		// Files are implied by the paths; only symbols nest in symbols
+		const parentOf = (node: IndexedNode): string | undefined => {
+			const parent = graph.incoming.get(node.id)?.find(edge => edge.relation === "contains")?.source;
+			return parent && graph.nodes.get(parent)?.kind !== "file" ? parent : undefined;
+		};
+		const symbols: OutlineSymbol[] = nodes.map(node => {
+			const doc = node.doc.split(/\n\s*\n|(?<=\.)\s/)[0].replace(/\s+/g, " ").trim();
+			const parent = parentOf(node);
+			return { ...toGraphNode(node), signature: node.signature, ...(doc ? { doc } : null), ...(parent ? { parent } : null) };
+		});
+
+		// Symbols nested under their file, then under their parents
+		const depths = new Map<string, number>();
+		const lines: string[] = [];
+		symbols.forEach((symbol, index) => {
+			if (symbol.path !== symbols[index - 1]?.path) {
+				lines.push(`${index ? "\n" : ""}${symbol.path}`);
+			}
+			const depth = symbol.parent ? (depths.get(symbol.parent) ?? 0) + 1 : 1;
+			depths.set(symbol.id, depth);
+			const indent = "  ".repeat(depth);
+			lines.push(`${indent}- ${symbol.kind} ${symbol.name} (lines ${symbol.startLine}-${symbol.endLine}): ${symbol.signature}`);
+			if (symbol.doc) lines.push(`${indent}  ${symbol.doc}`);
+		});
+
+		return { text: lines.join("\n"), symbols };
+	}
+
+	async listNodes(_target?: GraphTarget, signal?: AbortSignal): Promise<NodesResult> {
+		const graph = await this.load(signal);
+		return { text: null, nodes: [...graph.nodes.values()].map(node => toGraphNode(node)) };
+	}
+
+	async fullGraph(_target?: GraphTarget, signal?: AbortSignal): Promise<SubgraphResult> {
+		const graph = await this.load(signal);
+		return {
+			text: null,
+			nodes: [...graph.nodes.values()].map(node => toGraphNode(node)),
+			edges: graph.edges.map(({ source, target, relation }) => ({ source, target, relation })),
+		};
+	}
+
+	async folderTreeStructure(_target: GraphTarget, path?: string, signal?: AbortSignal): Promise<TreeResult> {
+		const graph = await this.load(signal);
+		const prefix = (path || "").replace(/^\.?\/+/, "").replace(/\/+$/, "");
+		const files = graph.files.filter(file => !prefix || file === prefix || file.startsWith(`${prefix}/`));
+		if (!files.length) return { text: null, entries: [] };
+
+		const entries = new Map<string, TreeEntry>();
+		for (const file of files) {
+			const parts = file.split("/");
+			parts.slice(0, -1).forEach((_, index) => {
+				const folder = parts.slice(0, index + 1).join("/");
+				if (folder.length > prefix.length) {
+					entries.set(folder, { path: folder, type: "folder" });
+				}
+			});
+			entries.set(file, { path: file, type: "file" });
+		}
+
+		type Tree = Map<string, Tree>;
+		const tree: Tree = new Map();
+		for (const file of files) {
+			let level = tree;
+			for (const part of (prefix ? file.slice(prefix.length + 1) || file : file).split("/")) {
+				if (!level.has(part)) level.set(part, new Map());
+				level = level.get(part)!;
+			}
+		}
+
+		const render = (level: Tree, indent: string): string[] =>
+			[...level.entries()]
+				.sort(([a, aChildren], [b, bChildren]) =>
+					Number(bChildren.size > 0) - Number(aChildren.size > 0) || a.localeCompare(b))
+				.flatMap(([name, children]) => children.size
+					? [`${indent}${name}/`, ...render(children, `${indent}  `)]
+					: [`${indent}${name}`]);
+
+		return {
+			text: [`${prefix || "."}/`, ...render(tree, "  ")].join("\n"),
+			entries: [...entries.values()],
+		};
+	}
+}
+
+const localBackends = new Map<string, LocalBackend>();
+
+/**
+ * Shared backend per directory, so every session reuses one index
+ */
+export const getLocalBackend = (root: string): LocalBackend => {
+	const absolute = resolve(root);
+	if (!localBackends.has(absolute)) {
+		localBackends.set(absolute, new LocalBackend(absolute));
+	}
+	return localBackends.get(absolute)!;
+};
@@ -0,0 +1,115 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { nodeFromRef, parseAdjacencyList, parseDirectConnections, parseNodeRefs, parseSearchResults, parseTreeEntries } from "./parse.js";
+
+describe("parseNodeRefs", () => {
+	it("reads path::name references with dotted names and nested paths", () => {
+		assert.deepEqual(parseNodeRefs("See src/app/cart.ts::Cart.total and lib\\util.py::helper.").map(node => node.id), [
+			"src/app/cart.ts::Cart.total",
+			"lib\\util.py::helper.",
+		]);
+	});
+});
+
+describe("parseSearchResults", () => {
+	it("attaches the score printed on a line to its references", () => {
+		const nodes = parseSearchResults([
+			"1. src/pay.ts::charge (score: 0.91)",
+			"2. src/pay.ts::refund similarity=0.5",
+			"3. src/pay.ts::audit",
+		].join("\n"));
+
+		assert.deepEqual(nodes.map(node => [node.name, node.score]), [["charge", 0.91], ["refund", 0.5], ["audit", undefined]]);
+	});
+});
+
+describe("parseAdjacencyList", () => {
+	it("links the first reference of a line to the others with the relation named on it", () => {
+		const { nodes, edges } = parseAdjacencyList([
+			"a.ts::main calls b.ts::load, c.ts::save",
+			"d.ts::Dog extends e.ts::Animal",
+			"f.ts::orphan",
+		].join("\n"));
+
+		assert.deepEqual(nodes.map(node => node.id), ["a.ts::main", "b.ts::load", "c.ts::save", "d.ts::Dog", "e.ts::Animal", "f.ts::orphan"]);
+		assert.deepEqual(edges, [
+			{ source: "a.ts::main", target: "b.ts::load", relation: "calls" },
+			{ source: "a.ts::main", target: "c.ts::save", relation: "calls" },
+			{ source: "d.ts::Dog", target: "e.ts::Animal", relation: "extends" },
+		]);
+	});
+
+	it("reverses left arrows, falls back to the default relation and merges repeated nodes", () => {
+		const { nodes, edges } = parseAdjacencyList("a.ts::x <- b.ts::y\na.ts::x -> b.ts::y", "references");
+
+		assert.equal(nodes.length, 2);
+		assert.deepEqual(edges, [
+			{ source: "b.ts::y", target: "a.ts::x", relation: "references" },
+			{ source: "a.ts::x", target: "b.ts::y", relation: "references" },
+		]);
+	});
+});
+
+describe("parseDirectConnections", () => {
+	const subject = nodeFromRef("src/cart.ts", "Cart");
+
+	it("takes the direction of single references from the closest heading", () => {
+		const { nodes, edges } = parseDirectConnections([
+			"Connections of src/cart.ts::Cart",
+			"Callers:",
+			"- src/shop.ts::checkout",
+			"Dependencies:",
+			"- src/price.ts::total",
+		].join("\n"), subject);
+
+		assert.deepEqual(nodes.map(node => node.id), ["src/cart.ts::Cart", "src/shop.ts::checkout", "src/price.ts::total"]);
+		assert.deepEqual(edges, [
+			{ source: "src/shop.ts::checkout", target: "src/cart.ts::Cart", relation: "uses" },
+			{ source: "src/cart.ts::Cart", target: "src/price.ts::total", relation: "uses" },
+		]);
+	});
+
+	it("lets arrows on a line override the heading", () => {
+		const { edges } = parseDirectConnections([
+			"Incoming:",
+			"-> src/log.ts::write (calls)",
+			"<- src/base.ts::Model (extends)",
+		].join("\n"), subject);
+
+		assert.deepEqual(edges, [
+			{ source: "src/cart.ts::Cart", target: "src/log.ts::write", relation: "calls" },
+			{ source: "src/base.ts::Model", target: "src/cart.ts::Cart", relation: "extends" },
+		]);
+	});
+});
+
+describe("parseTreeEntries", () => {
+	it("reads box-drawing trees under the requested folder", () => {
+		assert.deepEqual(parseTreeEntries([
+			"src/",
+			"├── app/",
+			"│   ├── cart.ts",
+			"│   └── shop.ts",
+			"├── lib",
+			"│   └── util.ts",
+			"└── index.ts",
+		].join("\n"), "src"), [
+			{ path: "src/app", type: "folder" },
+			{ path: "src/app/cart.ts", type: "file" },
+			{ path: "src/app/shop.ts", type: "file" },
+			{ path: "src/lib", type: "folder" },
+			{ path: "src/lib/util.ts", type: "file" },
+			{ path: "src/index.ts", type: "file" },
+		]);
+	});
+
+	it("reads plain indentation and keeps empty folders marked by a slash", () => {
+		assert.deepEqual(parseTreeEntries("docs/\nsrc\n  main.ts\n  empty/\nREADME.md"), [
+			{ path: "docs", type: "folder" },
+			{ path: "src", type: "folder" },
+			{ path: "src/main.ts", type: "file" },
+			{ path: "src/empty", type: "folder" },
+			{ path: "README.md", type: "file" },
+		]);
+	});
+});
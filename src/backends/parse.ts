@@ -0,0 +1,150 @@
+import type { GraphEdge, GraphNode, TreeEntry } from "../schemas.js";
+
+/**
+ * Parsers turning the free-form text returned by the CodeGPT API into graph
+ * entities. The API refers to functionalities as `file_path::functionality_name`;
+ * anything that cannot be recognized is left to the text content.
+ */
+
+// `path::name`, where name may contain dots and path may contain slashes
+const NODE_REF = /([\w@$.\-\/\\]+)::([\w$.<>#\-]+)/g;
+
+const RELATION_KEYWORDS: [RegExp, string][] = [
+	[/\bimplement/i, "implements"],
+	[/\bextend|\binherit/i, "extends"],
+	[/\bimport/i, "imports"],
+	[/\bcall/i, "calls"],
+	[/\bcontain|\bdeclar|\bdefin/i, "contains"],
+];
+
+// Headings or phrases marking a section of nodes pointing at the subject
+const INCOMING_SECTION = /\b(parents?|incoming|callers?|called by|used by|referenced by|dependents?|usages?)\b/i;
+const OUTGOING_SECTION = /\b(child|children|outgoing|callees?|calls|uses|dependenc(y|ies)|references)\b/i;
+
+export const nodeFromRef = (path: string, name: string, extra: Partial<GraphNode> = {}): GraphNode => ({
+	id: `${path}::${name}`,
+	name,
+	path,
+	...extra,
+});
+
+/**
+ * All `path::name` references in a piece of text, in order of appearance
+ */
+export const parseNodeRefs = (text: string): GraphNode[] =>
+	[...text.matchAll(NODE_REF)].map(([, path, name]) => nodeFromRef(path, name));
+
+// "score: 0.87", "similarity 0.9", "(relevance=0.72)"
+const SCORE = /\b(?:score|similarity|relevance)\b\W*(\d+(?:\.\d+)?)/i;
+
+/**
+ * Parse semantic search results, attaching the score printed on a result's
+ * line (when there is one) to the references on that line
+ */
+export const parseSearchResults = (text: string): GraphNode[] =>
+	text.split("\n").flatMap(line => {
+		const score = line.match(SCORE)?.[1];
+		return parseNodeRefs(line).map(node => score === undefined ? node : { ...node, score: Number(score) });
+	});
+
+const relationOf = (line: string, fallback: string): string =>
+	RELATION_KEYWORDS.find(([pattern]) => pattern.test(line))?.[1] ?? fallback;
+
+const uniqueNodes = (nodes: GraphNode[]): GraphNode[] =>
+	[...new Map(nodes.map(node => [node.id, node])).values()];
+
+/**
+ * Parse an adjacency list such as the output of `get-usage-dependency-links`.
+ * A line with two or more references links the first to each following one;
+ * arrows pointing left (`<-`) reverse the direction.
+ */
+export const parseAdjacencyList = (text: string, fallbackRelation = "uses"): { nodes: GraphNode[]; edges: GraphEdge[] } => {
+	const nodes: GraphNode[] = [];
+	const edges: GraphEdge[] = [];
+
+	for (const line of text.split("\n")) {
+		const refs = parseNodeRefs(line);
+		nodes.push(...refs);
+		if (refs.length < 2) continue;
+
+		const reversed = /<-|<=/.test(line);
+		const relation = relationOf(line, fallbackRelation);
+		const [first, ...rest] = refs;
+		for (const other of rest) {
+			edges.push(reversed
+				? { source: other.id, target: first.id, relation }
+				: { source: first.id, target: other.id, relation });
+		}
+	}
+
+	return { nodes: uniqueNodes(nodes), edges };
+};
+
+/**
+ * Parse the output of `find-direct-connections` for `subject`. Lines with a
+ * single reference are linked to the subject, with the direction taken from
+ * the closest preceding section heading.
+ */
+export const parseDirectConnections = (text: string, subject: GraphNode): { nodes: GraphNode[]; edges: GraphEdge[] } => {
+	const nodes: GraphNode[] = [subject];
+	const edges: GraphEdge[] = [];
+	let direction: "incoming" | "outgoing" = "outgoing";
+
+	for (const line of text.split("\n")) {
+		const refs = parseNodeRefs(line).filter(ref => ref.id !== subject.id);
+		if (!refs.length) {
+			if (INCOMING_SECTION.test(line)) direction = "incoming";
+			else if (OUTGOING_SECTION.test(line)) direction = "outgoing";
+			continue;
+		}
+
+		const lineDirection = /<-/.test(line) ? "incoming" : /->/.test(line) ? "outgoing" : direction;
+		const relation = relationOf(line, "uses");
+		for (const ref of refs) {
+			nodes.push(ref);
+			edges.push(lineDirection === "incoming"
+				? { source: ref.id, target: subject.id, relation }
+				: { source: subject.id, target: ref.id, relation });
+		}
+	}
+
+	return { nodes: uniqueNodes(nodes), edges };
+};
+
+/**
+ * Parse an indented folder tree (plain indentation or `├──`/`└──` drawing)
+ * into file and folder entries with full paths
+ */
+export const parseTreeEntries = (text: string, basePath = ""): TreeEntry[] => {
+	const entries: TreeEntry[] = [];
+	const stack: { depth: number; path: string }[] = [];
+	const lines = text.split("\n").filter(line => line.trim());
+
+	lines.forEach((line, index) => {
+		const match = line.match(/^([\s│|├└─`+\-]*)(.+)$/);
+		if (!match) return;
+		const depth = match[1].length;
+		const name = match[2].trim().replace(/\/$/, "");
+		if (!name || name === ".") return;
+		// A root line naming the requested folder itself
+		const base = basePath.replace(/\/+$/, "");
+		if (index === 0 && base && (name === base || base.endsWith(`/${name}`))) return;
+
+		while (stack.length && stack[stack.length - 1].depth >= depth) {
+			stack.pop();
+		}
+
+		const parent = stack.length ? stack[stack.length - 1].path : base;
+		const path = parent ? `${parent}/${name}` : name;
+		const next = lines[index + 1];
+		const nextDepth = next?.match(/^([\s│|├└─`+\-]*)/)?.[1].length ?? 0;
+		const isFolder = match[2].trim().endsWith("/") || nextDepth > depth;
+
+		entries.push({ path, type: isFolder ? "folder" : "file" });
+		if (isFolder) {
+			stack.push({ depth, path });
+		}
+	});
+
+	return entries;
+};
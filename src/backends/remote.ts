@@ -0,0 +1,58 @@
+import type { CodeGPTClient, DocsSearchResponse, Graph, GraphTarget, NodeQuery } from "../client.js";
+import { nodeFromRef, parseAdjacencyList, parseDirectConnections, parseSearchResults, parseTreeEntries } from "./parse.js";
+import type { GraphBackend, NodesResult, SubgraphResult, TreeResult } from "./types.js";
+
+/**
+ * Backend answering every tool through the hosted CodeGPT graph API. The API
+ * answers in text, which is parsed into nodes and edges on a best-effort basis.
+ */
+export class RemoteBackend implements GraphBackend {
+	constructor(private readonly client: CodeGPTClient) {}
+
+	async getCode(target: GraphTarget, query: NodeQuery, signal?: AbortSignal): Promise<NodesResult> {
+		const { content } = await this.client.getCode(target, query, signal);
+		return {
+			text: content || null,
+			nodes: content ? [nodeFromRef(query.path ?? "", query.name, { code: content })] : [],
+		};
+	}
+
+	async findDirectConnections(target: GraphTarget, query: NodeQuery, signal?: AbortSignal): Promise<SubgraphResult> {
+		const { content } = await this.client.findDirectConnections(target, query, signal);
+		if (!content) return { text: null, nodes: [], edges: [] };
+
+		const subject = nodeFromRef(query.path ?? "", query.name);
+		return { text: content, ...parseDirectConnections(content, subject) };
+	}
+
+	async getUsageDependencyLinks(target: GraphTarget, query: NodeQuery, signal?: AbortSignal): Promise<SubgraphResult> {
+		const { content } = await this.client.getUsageDependencyLinks(target, query, signal);
+		if (!content) return { text: null, nodes: [], edges: [] };
+
+		return { text: content, ...parseAdjacencyList(content) };
+	}
+
+	async nodesSemanticSearch(target: GraphTarget, query: string, signal?: AbortSignal): Promise<NodesResult> {
+		const { content } = await this.client.nodesSemanticSearch(target, query, signal);
+		return {
+			text: content || null,
+			nodes: content ? parseSearchResults(content) : [],
+		};
+	}
+
+	async folderTreeStructure(target: GraphTarget, path?: string, signal?: AbortSignal): Promise<TreeResult> {
+		const { content } = await this.client.folderTreeStructure(target, path, signal);
+		return {
+			text: content || null,
+			entries: content ? parseTreeEntries(content, path) : [],
+		};
+	}
+
+	docsSemanticSearch(target: GraphTarget, query: string, signal?: AbortSignal): Promise<DocsSearchResponse> {
+		return this.client.docsSemanticSearch(target, query, signal);
+	}
+
+	listGraphs(signal?: AbortSignal): Promise<Graph[]> {
+		return this.client.listGraphs(signal);
+	}
+}
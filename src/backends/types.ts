@@ -0,0 +1,53 @@
+import type { DocsSearchResponse, Graph, GraphTarget, NodeQuery } from "../client.js";
+import type { GraphEdge, GraphNode, OutlineSymbol, TreeEntry } from "../schemas.js";
+
+/**
+ * Every result carries the human-readable text shown to the agent (null when
+ * there is nothing to show) next to its structured form
+ */
+export type TextResult = {
+	text: string | null;
+};
+
+export type NodesResult = TextResult & {
+	nodes: GraphNode[];
+};
+
+export type SubgraphResult = TextResult & {
+	nodes: GraphNode[];
+	edges: GraphEdge[];
+};
+
+export type TreeResult = TextResult & {
+	entries: TreeEntry[];
+};
+
+export type OutlineResult = TextResult & {
+	symbols: OutlineSymbol[];
+};
+
+/**
+ * Source of graph data behind the tools. Every method answers the contract
+ * of the tool with the same name.
+ *
+ * Optional methods are only available on some backends; tools backed by
+ * them are not registered when the backend lacks them, and tools that merely
+ * benefit from them fall back to the required methods.
+ */
+export interface GraphBackend {
+	getCode(target: GraphTarget, query: NodeQuery, signal?: AbortSignal): Promise<NodesResult>;
+	findDirectConnections(target: GraphTarget, query: NodeQuery, signal?: AbortSignal): Promise<SubgraphResult>;
+	getUsageDependencyLinks(target: GraphTarget, query: NodeQuery, signal?: AbortSignal): Promise<SubgraphResult>;
+	nodesSemanticSearch(target: GraphTarget, query: string, signal?: AbortSignal): Promise<NodesResult>;
+	folderTreeStructure(target: GraphTarget, path?: string, signal?: AbortSignal): Promise<TreeResult>;
+	docsSemanticSearch?(target: GraphTarget, query: string, signal?: AbortSignal): Promise<DocsSearchResponse>;
+	listGraphs?(signal?: AbortSignal): Promise<Graph[]>;
+	/** Every node declared in one file, with line ranges, ordered by position */
+	fileNodes?(target: GraphTarget, path: string, signal?: AbortSignal): Promise<NodesResult>;
+	/** Symbols declared in a file, or in every file under a folder, with signatures */
+	fileOutline?(target: GraphTarget, path: string, signal?: AbortSignal): Promise<OutlineResult>;
+	/** Every node of the graph, for backends that can enumerate it cheaply */
+	listNodes?(target: GraphTarget, signal?: AbortSignal): Promise<NodesResult>;
+	/** Every node and edge of the graph, without code, for backends holding the whole graph */
+	fullGraph?(target: GraphTarget, signal?: AbortSignal): Promise<SubgraphResult>;
+}
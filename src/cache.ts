@@ -0,0 +1,249 @@
+import { createHash } from "crypto";
+import { mkdir, readFile, readdir, rm, writeFile } from "fs/promises";
+import { join } from "path";
+import type { SessionConfig } from "./config.js";
+import { logger } from "./logger.js";
+import { registerCollected } from "./metrics.js";
+
+type CacheEntry = {
+	expiresAt: number;
+	value: unknown;
+};
+
+/**
+ * Per-tool TTLs in seconds. A TTL of 0 disables caching for that tool.
+ */
+const DEFAULT_TTLS: Record<string, number> = {
+	"get-code": 300,
+	"find-direct-connections": 300,
+	"folder-tree-structure": 300,
+	"get-usage-dependency-links": 300,
+	"nodes-semantic-search": 0,
+	"docs-semantic-search": 0,
+};
+
+export type CacheOptions = {
+	maxEntries: number;
+	dir?: string;
+	ttls: Record<string, number>;
+};
+
+// Parse "get-code=600,folder-tree-structure=0" into a TTL map
+const parseTtls = (value: string | undefined): Record<string, number> => {
+	const ttls = { ...DEFAULT_TTLS };
+	for (const pair of (value || "").split(",")) {
+		const [tool, seconds] = pair.split("=").map(part => part.trim());
+		const parsed = parseInt(seconds, 10);
+		if (tool && !Number.isNaN(parsed) && parsed >= 0) {
+			ttls[tool] = parsed;
+		}
+	}
+	return ttls;
+};
+
+export const loadCacheOptions = (): CacheOptions => {
+	const maxEntries = parseInt(process.env.CODEGPT_CACHE_MAX_ENTRIES || "", 10);
+	return {
+		maxEntries: Number.isNaN(maxEntries) || maxEntries < 0 ? 500 : maxEntries,
+		dir: process.env.CODEGPT_CACHE_DIR || undefined,
+		ttls: parseTtls(process.env.CODEGPT_CACHE_TTLS),
+	};
+};
+
+const hash = (value: unknown): string => createHash("sha256").update(JSON.stringify(value)).digest("hex");
+
+/**
+ * Identify the account responses are fetched for: the API base URL, key and
+ * organization. Sessions of different accounts never share entries, and
+ * clearing the cache for one leaves the others alone. Entries are served
+ * without checking the key again, so a revoked key keeps reading what was
+ * cached for it until the entries expire.
+ */
+export const cacheScope = (config: Pick<SessionConfig, "CODEGPT_API_BASE" | "CODEGPT_API_KEY" | "CODEGPT_ORG_ID">): string =>
+	hash([config.CODEGPT_API_BASE, config.CODEGPT_API_KEY, config.CODEGPT_ORG_ID]).slice(0, 32);
+
+/**
+ * Build a stable cache key from the scope, the endpoint and the request
+ * arguments (graph included). Keys start with the scope, so a scope's
+ * entries can be cleared on their own.
+ */
+export const cacheKey = (endpoint: string, scope: string, args: Record<string, unknown>): string =>
+	`${scope}-${hash([endpoint, Object.entries(args).sort(([a], [b]) => a.localeCompare(b))])}`;
+
+// ============================================================================
+// Stores
+// ============================================================================
+
+/**
+ * In-memory LRU store relying on Map insertion order
+ */
+class LruStore {
+	private readonly entries = new Map<string, CacheEntry>();
+
+	constructor(private readonly maxEntries: number) {}
+
+	get(key: string): CacheEntry | undefined {
+		const entry = this.entries.get(key);
+		if (entry) {
+			this.entries.delete(key);
+			this.entries.set(key, entry);
+		}
+		return entry;
+	}
+
+	set(key: string, entry: CacheEntry): void {
+		if (this.maxEntries === 0) return;
+		this.entries.delete(key);
+		this.entries.set(key, entry);
+		while (this.entries.size > this.maxEntries) {
+			const oldest = this.entries.keys().next().value!;
+			this.entries.delete(oldest);
+		}
+	}
+
+	delete(key: string): void {
+		this.entries.delete(key);
+	}
+
+	clear(prefix = ""): number {
+		const keys = [...this.entries.keys()].filter(key => key.startsWith(prefix));
+		keys.forEach(key => this.entries.delete(key));
+		return keys.length;
+	}
+}
+
+/**
+ * File-backed store keeping one JSON file per key, so cached responses
+ * survive restarts of the STDIO server
+ */
+class FileStore {
+	constructor(private readonly dir: string) {}
+
+	async get(key: string): Promise<CacheEntry | undefined> {
+		try {
+			return JSON.parse(await readFile(this.file(key), "utf8"));
+		} catch {
+			return undefined;
+		}
+	}
+
+	async set(key: string, entry: CacheEntry): Promise<void> {
+		try {
+			await mkdir(this.dir, { recursive: true });
+			await writeFile(this.file(key), JSON.stringify(entry));
+		} catch (error) {
+			logger.warn("Error writing cache entry", { error });
+		}
+	}
+
+	async delete(key: string): Promise<void> {
+		await rm(this.file(key), { force: true });
+	}
+
+	async clear(prefix = ""): Promise<number> {
+		let files: string[];
+		try {
+			files = (await readdir(this.dir)).filter(file => file.startsWith(prefix) && file.endsWith(".json"));
+		} catch {
+			return 0;
+		}
+		await Promise.all(files.map(file => rm(join(this.dir, file), { force: true })));
+		return files.length;
+	}
+
+	private file(key: string): string {
+		return join(this.dir, `${key}.json`);
+	}
+}
+
+// ============================================================================
+// Response Cache
+// ============================================================================
+
+/**
+ * Two-level cache for upstream graph responses: an in-memory LRU in front of
+ * an optional on-disk store
+ */
+export class ResponseCache {
+	private readonly memory: LruStore;
+	private readonly file?: FileStore;
+	private hits = 0;
+	private misses = 0;
+
+	constructor(private readonly options: CacheOptions) {
+		this.memory = new LruStore(options.maxEntries);
+		this.file = options.dir ? new FileStore(options.dir) : undefined;
+	}
+
+	/**
+	 * TTL in milliseconds for a tool, 0 when it is not cached
+	 */
+	ttlFor(tool: string): number {
+		return (this.options.ttls[tool] ?? 0) * 1000;
+	}
+
+	async get(key: string): Promise<unknown | undefined> {
+		const now = Date.now();
+
+		let entry = this.memory.get(key);
+		if (!entry && this.file) {
+			entry = await this.file.get(key);
+			if (entry && entry.expiresAt > now) {
+				this.memory.set(key, entry);
+			}
+		}
+
+		if (!entry || entry.expiresAt <= now) {
+			if (entry) {
+				this.memory.delete(key);
+				await this.file?.delete(key);
+			}
+			this.misses++;
+			return undefined;
+		}
+
+		this.hits++;
+		return entry.value;
+	}
+
+	async set(key: string, value: unknown, ttlMs: number): Promise<void> {
+		if (ttlMs <= 0) return;
+		const entry = { expiresAt: Date.now() + ttlMs, value };
+		this.memory.set(key, entry);
+		await this.file?.set(key, entry);
+	}
+
+	/**
+	 * Remove the cached responses of one scope (see cacheScope), or every
+	 * one, returning how many entries were dropped
+	 */
+	async clear(scope?: string): Promise<number> {
+		const prefix = scope ? `${scope}-` : "";
+		const memoryCount = this.memory.clear(prefix);
+		const fileCount = (await this.file?.clear(prefix)) ?? 0;
+		return Math.max(memoryCount, fileCount);
+	}
+
+	stats(): { hits: number; misses: number } {
+		return { hits: this.hits, misses: this.misses };
+	}
+}
+
+let sharedCache: ResponseCache | undefined;
+
+/**
+ * Process-wide cache shared by every session. Entries are keyed by
+ * credentials, so sharing only saves upstream calls, never leaks data.
+ */
+export const getResponseCache = (): ResponseCache => {
+	if (!sharedCache) {
+		const cache = sharedCache = new ResponseCache(loadCacheOptions());
+		registerCollected("codegraph_cache_hits_total", "Upstream responses served from the cache", "counter", () => cache.stats().hits);
+		registerCollected("codegraph_cache_misses_total", "Cache lookups that went upstream", "counter", () => cache.stats().misses);
+		registerCollected("codegraph_cache_hit_ratio", "Share of cache lookups served from the cache", "gauge", () => {
+			const { hits, misses } = cache.stats();
+			return hits + misses ? hits / (hits + misses) : 0;
+		});
+	}
+	return sharedCache;
+};
@@ -0,0 +1,272 @@
+import { existsSync, readFileSync } from "fs";
+import { createRequire } from "module";
+import { dirname, extname, resolve } from "path";
+import { parseArgs } from "util";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+import { createSessionConfig, SessionConfig } from "./config.js";
+import { RULES_FILES } from "./rules.js";
+
+export const VERSION: string = createRequire(import.meta.url)("../package.json").version;
+
+/**
+ * Config files looked up in the working directory when --config is not given
+ */
+export const CONFIG_FILES = ["codegraph.config.json", "codegraph.config.yaml", "codegraph.config.yml"];
+
+export const USAGE = `Usage: mcp-code-graph [options]
+
+Serves the CodeGPT code graph over MCP: on stdio by default, over HTTP with --port.
+
+Options:
+  --api-key <key>      CodeGPT API key (env CODEGPT_API_KEY)
+  --org-id <id>        CodeGPT organization ID (env CODEGPT_ORG_ID)
+  --graph-id <id>      Graph to query (env CODEGPT_GRAPH_ID)
+  --repo <org/repo>    Public DeepGraph repository; repeat for several (env CODEGPT_REPO_URL)
+  --local <path>       Index a local checkout instead of using the CodeGPT API (env CODEGPT_LOCAL_PATH)
+  --entry-point <glob> Path or name never reported as dead code; repeat for several (env CODEGPT_ENTRY_POINTS, comma-separated)
+  --rules <file>       Architecture rules file (env CODEGPT_RULES_FILE; default: ${RULES_FILES.join(", ")} in the checkout)
+  --port <port>        Serve MCP over HTTP on this port (env PORT)
+  --api-base <url>     CodeGPT API base URL (env CODEGPT_API_BASE)
+  --config <file>      Config file (default: ${CONFIG_FILES.join(", ")} in the working directory)
+  --clear-cache        Empty the response cache and exit
+  --check-rules        Check the --local checkout against the architecture rules and exit, with status 1 on violations
+  -h, --help           Show this help and exit
+  -v, --version        Show the version and exit
+
+Flags take precedence over environment variables, which take precedence over the config file.
+`;
+
+/**
+ * Invalid command line or config file; reported without a stack trace
+ */
+export class CliError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "CliError";
+	}
+}
+
+// ============================================================================
+// Settings
+// ============================================================================
+
+const settingsSchema = z
+	.object({
+		apiKey: z.string().min(1),
+		orgId: z.string().min(1),
+		graphId: z.string().min(1),
+		repos: z.array(
+			z.string().trim().regex(/[^/\s]+\/[^/\s]+\/?$/, "Expected a repository like 'org/repo'"),
+		),
+		local: z.string().min(1),
+		entryPoints: z.array(z.string().trim().min(1)),
+		rules: z.string().min(1),
+		port: z.coerce.number().int().min(1).max(65535),
+		apiBase: z.string().url(),
+	})
+	.partial()
+	.strict();
+
+/**
+ * Settings shared by the command line, the environment and the config file
+ */
+export type CliSettings = z.infer<typeof settingsSchema>;
+
+export type CliOptions = {
+	command: "serve" | "help" | "version" | "clear-cache" | "check-rules";
+	settings: CliSettings;
+	/** Config file the settings were read from, if any */
+	configFile?: string;
+};
+
+type SettingName = keyof CliSettings;
+
+const FLAGS: Record<SettingName, string> = {
+	apiKey: "--api-key",
+	orgId: "--org-id",
+	graphId: "--graph-id",
+	repos: "--repo",
+	local: "--local",
+	entryPoints: "--entry-point",
+	rules: "--rules",
+	port: "--port",
+	apiBase: "--api-base",
+};
+
+const ENV_VARS: Record<SettingName, string> = {
+	apiKey: "CODEGPT_API_KEY",
+	orgId: "CODEGPT_ORG_ID",
+	graphId: "CODEGPT_GRAPH_ID",
+	repos: "CODEGPT_REPO_URL",
+	local: "CODEGPT_LOCAL_PATH",
+	entryPoints: "CODEGPT_ENTRY_POINTS",
+	rules: "CODEGPT_RULES_FILE",
+	port: "PORT",
+	apiBase: "CODEGPT_API_BASE",
+};
+
+/**
+ * Validate one layer of settings. `names` maps settings to how that layer
+ * spells them, so errors point at the flag or variable to fix.
+ */
+const validate = (source: string, values: Record<string, unknown>, names?: Record<SettingName, string>): CliSettings => {
+	const parsed = settingsSchema.safeParse(values);
+	if (!parsed.success) {
+		const issues = parsed.error.issues.map(({ path, message }) => {
+			const [key, ...rest] = path.map(String);
+			const name = names?.[key as SettingName] ?? [key, ...rest].join(".");
+			return `${name || "config"}: ${message}`;
+		});
+		throw new CliError(`Invalid ${source}: ${issues.join("; ")}`);
+	}
+	return parsed.data;
+};
+
+// Drop unset values so they don't hide a lower-precedence layer
+const defined = (values: Record<string, unknown>): Record<string, unknown> =>
+	Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined && value !== ""));
+
+const fromEnv = (): CliSettings =>
+	validate("environment", defined({
+		apiKey: process.env.CODEGPT_API_KEY,
+		orgId: process.env.CODEGPT_ORG_ID,
+		graphId: process.env.CODEGPT_GRAPH_ID,
+		repos: process.env.CODEGPT_REPO_URL ? [process.env.CODEGPT_REPO_URL] : undefined,
+		local: process.env.CODEGPT_LOCAL_PATH,
+		entryPoints: process.env.CODEGPT_ENTRY_POINTS ? process.env.CODEGPT_ENTRY_POINTS.split(",") : undefined,
+		rules: process.env.CODEGPT_RULES_FILE,
+		port: process.env.PORT,
+		apiBase: process.env.CODEGPT_API_BASE,
+	}), ENV_VARS);
+
+const fromFile = (path: string): CliSettings => {
+	let raw: unknown;
+	try {
+		const text = readFileSync(path, "utf8");
+		raw = extname(path) === ".json" ? JSON.parse(text) : parseYaml(text);
+	} catch (error) {
+		throw new CliError(`Could not read config file ${path}: ${error instanceof Error ? error.message : error}`);
+	}
+	if (raw === null || typeof raw !== "object" || Array.isArray(raw)) {
+		throw new CliError(`Invalid config file ${path}: expected an object`);
+	}
+
+	const settings = validate(`config file ${path}`, raw as Record<string, unknown>);
+	// Relative checkout and rules paths are relative to the file, not to where the server starts
+	return {
+		...settings,
+		...(settings.local ? { local: resolve(dirname(path), settings.local) } : null),
+		...(settings.rules ? { rules: resolve(dirname(path), settings.rules) } : null),
+	};
+};
+
+const findConfigFile = (explicit?: string): string | undefined => {
+	if (explicit) {
+		if (!existsSync(explicit)) {
+			throw new CliError(`Config file not found: ${explicit}`);
+		}
+		return resolve(explicit);
+	}
+	return CONFIG_FILES.map(name => resolve(name)).find(path => existsSync(path));
+};
+
+// ============================================================================
+// Command Line
+// ============================================================================
+
+/**
+ * Parse the command line and merge it with the environment and the config
+ * file (flags > env > file). Everything is validated before the server starts.
+ *
+ * Positional arguments are still accepted for existing MCP client configs:
+ * `org/repo` values are repositories, the others are the API key,
+ * organization ID and graph ID, in that order.
+ */
+export const parseCli = (argv: string[]): CliOptions => {
+	let parsed;
+	try {
+		parsed = parseArgs({
+			args: argv,
+			allowPositionals: true,
+			options: {
+				"api-key": { type: "string" },
+				"org-id": { type: "string" },
+				"graph-id": { type: "string" },
+				"repo": { type: "string", multiple: true },
+				"local": { type: "string" },
+				"entry-point": { type: "string", multiple: true },
+				"rules": { type: "string" },
+				"port": { type: "string" },
+				"api-base": { type: "string" },
+				"config": { type: "string" },
+				"clear-cache": { type: "boolean" },
+				"check-rules": { type: "boolean" },
+				"help": { type: "boolean", short: "h" },
+				"version": { type: "boolean", short: "v" },
+			},
+		});
+	} catch (error) {
+		throw new CliError(error instanceof Error ? error.message : String(error));
+	}
+	const { values, positionals } = parsed;
+
+	if (values.help) return { command: "help", settings: {} };
+	if (values.version) return { command: "version", settings: {} };
+
+	const positionalRepos = positionals.filter(arg => arg.includes("/"));
+	const [apiKey, orgId, graphId, ...extra] = positionals.filter(arg => !arg.includes("/"));
+	if (extra.length) {
+		throw new CliError(`Unexpected argument(s): ${extra.join(" ")}`);
+	}
+	const repos = [...(values.repo ?? []), ...positionalRepos];
+
+	const flags = validate("command line", defined({
+		apiKey: values["api-key"] ?? apiKey,
+		orgId: values["org-id"] ?? orgId,
+		graphId: values["graph-id"] ?? graphId,
+		repos: repos.length ? repos : undefined,
+		local: values.local,
+		entryPoints: values["entry-point"],
+		rules: values.rules,
+		port: values.port,
+		apiBase: values["api-base"],
+	}), FLAGS);
+
+	const configFile = findConfigFile(values.config);
+	const settings = { ...(configFile ? fromFile(configFile) : {}), ...fromEnv(), ...flags };
+
+	return {
+		command: values["clear-cache"] ? "clear-cache" : values["check-rules"] ? "check-rules" : "serve",
+		settings,
+		configFile,
+	};
+};
+
+/**
+ * Session config overrides for the merged settings. HTTP sessions use them
+ * as defaults under the caller's own credentials.
+ */
+export const sessionOverrides = (settings: CliSettings): Partial<SessionConfig> => {
+	const repos = settings.repos ?? [];
+	return {
+		CODEGPT_API_KEY: settings.apiKey,
+		CODEGPT_ORG_ID: settings.orgId,
+		CODEGPT_GRAPH_ID: settings.graphId,
+		CODEGPT_API_BASE: settings.apiBase?.replace(/\/+$/, ""),
+		LOCAL_PATH: settings.local,
+		ENTRY_POINTS: settings.entryPoints,
+		RULES_FILE: settings.rules,
+		...(repos.length > 1 ? { IS_MULTI_REPO: true, REPO_LIST: repos } : { CODEGPT_REPO_URL: repos[0] }),
+	};
+};
+
+/**
+ * Session config for a STDIO server, which runs on the user's machine and
+ * may therefore read the working directory (e.g. for git diffs)
+ */
+export const stdioSessionConfig = (settings: CliSettings): SessionConfig =>
+	createSessionConfig({
+		...sessionOverrides(settings),
+		WORKSPACE_DIR: settings.local ?? process.cwd(),
+	});
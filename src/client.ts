@@ -0,0 +1,349 @@
+import { z } from "zod";
+import { ResponseCache, cacheKey, cacheScope } from "./cache.js";
+import type { SessionConfig } from "./config.js";
+import { recordUpstreamResponse } from "./metrics.js";
+import {
+	RetryPolicy,
+	attemptController,
+	backoffDelay,
+	isRetryableStatus,
+	parseRetryAfter,
+	sleep,
+} from "./retry.js";
+
+// ============================================================================
+// Errors
+// ============================================================================
+
+/**
+ * Categories of upstream failures, so tools can report something actionable
+ * instead of the raw status code.
+ */
+export type CodeGPTErrorKind =
+	| "auth"
+	| "not-found"
+	| "rate-limited"
+	| "bad-request"
+	| "server"
+	| "network"
+	| "timeout"
+	| "cancelled"
+	| "invalid-response";
+
+export class CodeGPTApiError extends Error {
+	constructor(
+		readonly kind: CodeGPTErrorKind,
+		message: string,
+		readonly status?: number,
+	) {
+		super(message);
+		this.name = "CodeGPTApiError";
+	}
+}
+
+const ERROR_HINTS: Record<CodeGPTErrorKind, string> = {
+	"auth": "Authentication with the CodeGPT API failed. Check the API key and organization ID.",
+	"not-found": "The requested graph or code entity was not found. Check the graph ID, repository, name and path.",
+	"rate-limited": "The CodeGPT API rate limit was exceeded. Wait before retrying.",
+	"bad-request": "The CodeGPT API rejected the request.",
+	"server": "The CodeGPT API returned a server error. Try again later.",
+	"network": "Could not reach the CodeGPT API.",
+	"timeout": "The CodeGPT API did not respond in time.",
+	"cancelled": "The request was cancelled.",
+	"invalid-response": "The CodeGPT API returned an unexpected response.",
+};
+
+const errorKindForStatus = (status: number): CodeGPTErrorKind => {
+	if (status === 401 || status === 403) return "auth";
+	if (status === 404) return "not-found";
+	if (status === 429) return "rate-limited";
+	if (status >= 500) return "server";
+	return "bad-request";
+};
+
+// Pull a human readable message out of an error body, whatever its shape
+const extractErrorDetail = (body: string): string => {
+	try {
+		const parsed = JSON.parse(body);
+		const detail = parsed?.message ?? parsed?.error ?? parsed?.detail;
+		if (typeof detail === "string") return detail;
+	} catch {
+		// Not JSON, fall through to the raw text
+	}
+	return body.trim().slice(0, 500);
+};
+
+// ============================================================================
+// Response Schemas
+// ============================================================================
+
+const contentResponseSchema = z
+	.object({
+		content: z.string().nullish(),
+	})
+	.passthrough();
+
+const graphSchema = z
+	.object({
+		id: z.string(),
+		name: z.string().nullish(),
+		branch: z.string().nullish(),
+		description: z.string().nullish(),
+	})
+	.passthrough();
+
+const graphListSchema = z.array(graphSchema);
+
+// Documentation search results are passed through as-is
+const docsSearchResponseSchema = z.union([z.array(z.unknown()), z.record(z.unknown())]);
+
+export type ContentResponse = z.infer<typeof contentResponseSchema>;
+export type Graph = z.infer<typeof graphSchema>;
+export type DocsSearchResponse = z.infer<typeof docsSearchResponseSchema>;
+
+// ============================================================================
+// Client
+// ============================================================================
+
+/**
+ * The graph a request targets: either a graph ID or a repository (org/repo)
+ */
+export type GraphTarget = {
+	graphId: string | null;
+	repoUrl?: string;
+};
+
+export type NodeQuery = {
+	name: string;
+	path?: string;
+};
+
+/**
+ * Typed client for the CodeGPT graph API, bound to one session's credentials
+ */
+export class CodeGPTClient {
+	private readonly retryPolicy: RetryPolicy;
+
+	constructor(
+		private readonly config: SessionConfig,
+		private readonly cache?: ResponseCache,
+	) {
+		this.retryPolicy = {
+			timeoutMs: config.CODEGPT_REQUEST_TIMEOUT_MS,
+			maxRetries: config.CODEGPT_MAX_RETRIES,
+			baseDelayMs: config.CODEGPT_RETRY_BASE_DELAY_MS,
+			maxDelayMs: config.CODEGPT_RETRY_MAX_DELAY_MS,
+		};
+	}
+
+	listGraphs(signal?: AbortSignal): Promise<Graph[]> {
+		return this.request("GET", "/mcp/graphs", graphListSchema, undefined, signal);
+	}
+
+	getCode(target: GraphTarget, { name, path }: NodeQuery, signal?: AbortSignal): Promise<ContentResponse> {
+		return this.cachedRequest("get-code", contentResponseSchema, {
+			...this.targetBody(target),
+			name,
+			...(path ? { path } : null),
+		}, signal);
+	}
+
+	findDirectConnections(target: GraphTarget, { name, path }: NodeQuery, signal?: AbortSignal): Promise<ContentResponse> {
+		return this.cachedRequest("find-direct-connections", contentResponseSchema, {
+			...this.targetBody(target),
+			name,
+			...(path ? { path } : null),
+		}, signal);
+	}
+
+	getUsageDependencyLinks(target: GraphTarget, { name, path }: NodeQuery, signal?: AbortSignal): Promise<ContentResponse> {
+		return this.cachedRequest("get-usage-dependency-links", contentResponseSchema, {
+			...this.targetBody(target),
+			name,
+			...(path ? { path } : null),
+		}, signal);
+	}
+
+	nodesSemanticSearch(target: GraphTarget, query: string, signal?: AbortSignal): Promise<ContentResponse> {
+		return this.cachedRequest("nodes-semantic-search", contentResponseSchema, {
+			...this.targetBody(target),
+			query,
+		}, signal);
+	}
+
+	docsSemanticSearch(target: GraphTarget, query: string, signal?: AbortSignal): Promise<DocsSearchResponse> {
+		return this.cachedRequest("docs-semantic-search", docsSearchResponseSchema, {
+			...this.targetBody(target),
+			query,
+		}, signal);
+	}
+
+	folderTreeStructure(target: GraphTarget, path?: string, signal?: AbortSignal): Promise<ContentResponse> {
+		return this.cachedRequest("folder-tree-structure", contentResponseSchema, {
+			...this.targetBody(target),
+			path: path || "",
+		}, signal);
+	}
+
+	private targetBody({ graphId, repoUrl }: GraphTarget) {
+		return {
+			graphId,
+			...(repoUrl ? { repoUrl } : null),
+		};
+	}
+
+	/**
+	 * POST to a graph endpoint, serving from the response cache when the
+	 * tool has a TTL configured
+	 */
+	private async cachedRequest<T extends z.ZodTypeAny>(
+		tool: string,
+		schema: T,
+		body: Record<string, unknown>,
+		signal?: AbortSignal,
+	): Promise<z.infer<T>> {
+		const endpoint = `/mcp/graphs/${tool}`;
+		const ttl = this.cache?.ttlFor(tool) ?? 0;
+		if (!this.cache || ttl <= 0) {
+			return this.request("POST", endpoint, schema, body, signal);
+		}
+
+		const key = cacheKey(endpoint, cacheScope(this.config), body);
+		const cached = schema.safeParse(await this.cache.get(key));
+		if (cached.success) {
+			return cached.data;
+		}
+
+		const data = await this.request("POST", endpoint, schema, body, signal);
+		await this.cache.set(key, data, ttl);
+		return data;
+	}
+
+	private async request<T extends z.ZodTypeAny>(
+		method: "GET" | "POST",
+		endpoint: string,
+		schema: T,
+		body?: Record<string, unknown>,
+		signal?: AbortSignal,
+	): Promise<z.infer<T>> {
+		const headers: Record<string, string> = {
+			accept: "application/json",
+			authorization: `Bearer ${this.config.CODEGPT_API_KEY}`,
+			"CodeGPT-Org-Id": this.config.CODEGPT_ORG_ID,
+		};
+		if (body) {
+			headers["content-type"] = "application/json";
+		}
+
+		const policy = this.retryPolicy;
+		for (let attempt = 0; ; attempt++) {
+			const canRetry = attempt < policy.maxRetries;
+			const attemptSignal = attemptController(policy.timeoutMs, signal);
+
+			let response: globalThis.Response;
+			let text: string;
+			try {
+				response = await fetch(`${this.config.CODEGPT_API_BASE}${endpoint}`, {
+					method,
+					headers,
+					signal: attemptSignal.signal,
+					...(body ? { body: JSON.stringify(body) } : null),
+				});
+				text = await response.text();
+				recordUpstreamResponse(endpoint, response.status);
+			} catch (error) {
+				if (signal?.aborted) {
+					recordUpstreamResponse(endpoint, "cancelled");
+					throw new CodeGPTApiError("cancelled", ERROR_HINTS.cancelled);
+				}
+				const kind = attemptSignal.timedOut() ? "timeout" : "network";
+				recordUpstreamResponse(endpoint, kind);
+				if (!canRetry) {
+					throw new CodeGPTApiError(
+						kind,
+						kind === "timeout"
+							? `${ERROR_HINTS.timeout} (no response after ${policy.timeoutMs}ms, ${attempt + 1} attempt(s))`
+							: `${ERROR_HINTS.network} ${error}`,
+					);
+				}
+				await this.backoff(backoffDelay(policy, attempt), signal);
+				continue;
+			} finally {
+				attemptSignal.dispose();
+			}
+
+			if (!response.ok) {
+				const kind = errorKindForStatus(response.status);
+				if (canRetry && isRetryableStatus(response.status)) {
+					const retryAfter = parseRetryAfter(response.headers.get("retry-after"));
+					// Give up instead of waiting longer than the policy allows
+					if (retryAfter === null || retryAfter <= policy.maxDelayMs) {
+						await this.backoff(retryAfter ?? backoffDelay(policy, attempt), signal);
+						continue;
+					}
+				}
+
+				const detail = extractErrorDetail(text);
+				throw new CodeGPTApiError(
+					kind,
+					`${ERROR_HINTS[kind]} (HTTP ${response.status}${detail ? `: ${detail}` : ""})`,
+					response.status,
+				);
+			}
+
+			let json: unknown;
+			try {
+				json = JSON.parse(text);
+			} catch {
+				throw new CodeGPTApiError("invalid-response", `${ERROR_HINTS["invalid-response"]} Body is not valid JSON.`, response.status);
+			}
+
+			const parsed = schema.safeParse(json);
+			if (!parsed.success) {
+				throw new CodeGPTApiError(
+					"invalid-response",
+					`${ERROR_HINTS["invalid-response"]} ${parsed.error.issues.map(issue => `${issue.path.join(".") || "body"}: ${issue.message}`).join("; ")}`,
+					response.status,
+				);
+			}
+			return parsed.data;
+		}
+	}
+
+	private async backoff(delayMs: number, signal?: AbortSignal): Promise<void> {
+		try {
+			await sleep(delayMs, signal);
+		} catch {
+			throw new CodeGPTApiError("cancelled", ERROR_HINTS.cancelled);
+		}
+	}
+}
+
+export type PingResult = {
+	ok: boolean;
+	latencyMs: number;
+	status?: number;
+	error?: string;
+};
+
+/**
+ * Check that the CodeGPT API at `apiBase` answers. The base URL needs no
+ * credentials, so any response short of a server error means it is reachable.
+ */
+export const pingCodeGPTApi = async (apiBase: string, timeoutMs: number): Promise<PingResult> => {
+	const started = Date.now();
+	const attempt = attemptController(timeoutMs);
+	try {
+		const response = await fetch(apiBase, { method: "GET", signal: attempt.signal });
+		await response.body?.cancel();
+		return { ok: response.status < 500, latencyMs: Date.now() - started, status: response.status };
+	} catch (error) {
+		return {
+			ok: false,
+			latencyMs: Date.now() - started,
+			error: attempt.timedOut() ? `No response after ${timeoutMs}ms` : String(error),
+		};
+	} finally {
+		attempt.dispose();
+	}
+};
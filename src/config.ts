@@ -1,8 +1,76 @@
-export const config = {
+/**
+ * Configuration carried by a single MCP session.
+ *
+ * Every session (STDIO process, Smithery instance or HTTP session) gets its
+ * own frozen copy, so concurrent sessions never observe each other's keys,
+ * orgs or graphs.
+ */
+export type SessionConfig = Readonly<{
+  CODEGPT_API_KEY: string;
+  CODEGPT_REPO_URL: string;
+  CODEGPT_ORG_ID: string;
+  CODEGPT_GRAPH_ID: string;
+  IS_MULTI_REPO: boolean;
+  REPO_LIST: readonly string[];
+  /** Directory indexed by the offline backend, empty to use the CodeGPT API */
+  LOCAL_PATH: string;
+  /** Directory git commands run in; only set for STDIO sessions on the user's machine */
+  WORKSPACE_DIR: string;
+  /** Glob patterns of entry points (paths or names) never reported as dead code */
+  ENTRY_POINTS: readonly string[];
+  /** Architecture rules file checked when check-architecture-rules is given no rules */
+  RULES_FILE: string;
+  /** Base URL of the CodeGPT API */
+  CODEGPT_API_BASE: string;
+  CODEGPT_REQUEST_TIMEOUT_MS: number;
+  CODEGPT_MAX_RETRIES: number;
+  CODEGPT_RETRY_BASE_DELAY_MS: number;
+  CODEGPT_RETRY_MAX_DELAY_MS: number;
+}>
+
+export const DEFAULT_API_BASE = "https://api-mcp.codegpt.co/api/v1"
+
+const envInt = (name: string, fallback: number): number => {
+  const value = parseInt(process.env[name] || "", 10)
+  return Number.isNaN(value) || value < 0 ? fallback : value
+}
+
+// Read lazily so values loaded by dotenv after module evaluation are honoured
+const loadEnvConfig = (): SessionConfig => ({
   CODEGPT_API_KEY: process.env.CODEGPT_API_KEY || "",
   CODEGPT_REPO_URL: process.env.CODEGPT_REPO_URL || "",
   CODEGPT_ORG_ID: process.env.CODEGPT_ORG_ID || "",
   CODEGPT_GRAPH_ID: process.env.CODEGPT_GRAPH_ID || "",
   IS_MULTI_REPO: false,
-  REPO_LIST: [] as string[]
+  REPO_LIST: [],
+  LOCAL_PATH: process.env.CODEGPT_LOCAL_PATH || "",
+  WORKSPACE_DIR: "",
+  ENTRY_POINTS: [],
+  RULES_FILE: process.env.CODEGPT_RULES_FILE || "",
+  CODEGPT_API_BASE: (process.env.CODEGPT_API_BASE || DEFAULT_API_BASE).replace(/\/+$/, ""),
+  CODEGPT_REQUEST_TIMEOUT_MS: envInt("CODEGPT_REQUEST_TIMEOUT_MS", 30000),
+  CODEGPT_MAX_RETRIES: envInt("CODEGPT_MAX_RETRIES", 2),
+  CODEGPT_RETRY_BASE_DELAY_MS: envInt("CODEGPT_RETRY_BASE_DELAY_MS", 500),
+  CODEGPT_RETRY_MAX_DELAY_MS: envInt("CODEGPT_RETRY_MAX_DELAY_MS", 10000)
+})
+
+/**
+ * Build an immutable session config from the environment defaults and the
+ * given overrides. Empty override values fall back to the environment.
+ */
+export const createSessionConfig = (overrides: Partial<SessionConfig> = {}): SessionConfig => {
+  const base = loadEnvConfig()
+  const merged = { ...base }
+
+  for (const [key, value] of Object.entries(overrides) as [keyof SessionConfig, unknown][]) {
+    if (value !== undefined && value !== "") {
+      (merged as Record<string, unknown>)[key] = value
+    }
+  }
+
+  return Object.freeze({
+    ...merged,
+    REPO_LIST: Object.freeze([...merged.REPO_LIST]),
+    ENTRY_POINTS: Object.freeze([...merged.ENTRY_POINTS])
+  })
 }
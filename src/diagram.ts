@@ -0,0 +1,77 @@
+import type { GraphEdge, GraphNode } from "./schemas.js";
+
+export type DiagramFormat = "mermaid" | "dot";
+
+export type DiagramGrouping = "none" | "file" | "folder";
+
+export type DiagramOptions = {
+	format: DiagramFormat;
+	groupBy: DiagramGrouping;
+	edgeLabels: boolean;
+	/** Node IDs drawn highlighted, e.g. the node the diagram is about */
+	highlight?: readonly string[];
+};
+
+const folderOf = (path: string): string =>
+	path.includes("/") ? path.slice(0, path.lastIndexOf("/")) : path.includes(".") ? "." : path;
+
+// Nodes per cluster label, in first-seen order; a single unnamed cluster when ungrouped
+const groupNodes = (nodes: GraphNode[], groupBy: DiagramGrouping): Map<string, GraphNode[]> => {
+	const groups = new Map<string, GraphNode[]>();
+	for (const node of nodes) {
+		const key = groupBy === "file" ? node.path : groupBy === "folder" ? folderOf(node.path) : "";
+		groups.set(key, [...(groups.get(key) ?? []), node]);
+	}
+	return groups;
+};
+
+const mermaidText = (text: string): string => `"${text.replace(/"/g, "#quot;")}"`;
+
+const dotText = (text: string): string => `"${text.replace(/\\/g, "\\\\").replace(/"/g, '\\"')}"`;
+
+/**
+ * Render nodes and edges as a Mermaid flowchart or a Graphviz digraph. Node
+ * IDs are replaced by short identifiers (n0, n1, ...) since graph IDs contain
+ * characters neither syntax accepts; edges to undrawn nodes are skipped.
+ */
+export const renderDiagram = (nodes: GraphNode[], edges: GraphEdge[], options: DiagramOptions): string => {
+	const ids = new Map(nodes.map((node, index) => [node.id, `n${index}`]));
+	const groups = groupNodes(nodes, options.groupBy);
+	const highlighted = (options.highlight ?? []).filter(id => ids.has(id)).map(id => ids.get(id)!);
+	const drawn = edges.filter(edge => ids.has(edge.source) && ids.has(edge.target));
+
+	if (options.format === "mermaid") {
+		const lines = ["flowchart LR"];
+		[...groups.entries()].forEach(([label, members], index) => {
+			const indent = label ? "    " : "  ";
+			if (label) lines.push(`  subgraph g${index}[${mermaidText(label)}]`);
+			members.forEach(node => lines.push(`${indent}${ids.get(node.id)}[${mermaidText(node.name)}]`));
+			if (label) lines.push("  end");
+		});
+		for (const edge of drawn) {
+			const label = options.edgeLabels ? `|${mermaidText(edge.relation)}|` : "";
+			lines.push(`  ${ids.get(edge.source)} -->${label} ${ids.get(edge.target)}`);
+		}
+		if (highlighted.length) {
+			lines.push("  classDef subject stroke-width:3px", `  class ${highlighted.join(",")} subject`);
+		}
+		return lines.join("\n");
+	}
+
+	const lines = ["digraph G {", "  rankdir=LR;", "  node [shape=box];"];
+	[...groups.entries()].forEach(([label, members], index) => {
+		const indent = label ? "    " : "  ";
+		if (label) lines.push(`  subgraph cluster_${index} {`, `    label=${dotText(label)};`);
+		for (const node of members) {
+			const style = highlighted.includes(ids.get(node.id)!) ? ", penwidth=3" : "";
+			lines.push(`${indent}${ids.get(node.id)} [label=${dotText(node.name)}${style}];`);
+		}
+		if (label) lines.push("  }");
+	});
+	for (const edge of drawn) {
+		const label = options.edgeLabels ? ` [label=${dotText(edge.relation)}]` : "";
+		lines.push(`  ${ids.get(edge.source)} -> ${ids.get(edge.target)}${label};`);
+	}
+	lines.push("}");
+	return lines.join("\n");
+};
@@ -0,0 +1,117 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { declaredNames, parseUnifiedDiff } from "./diff.js";
+
+describe("parseUnifiedDiff", () => {
+	it("reads paths, hunks and new-side changed lines of git diffs", () => {
+		const [file, ...rest] = parseUnifiedDiff([
+			"diff --git a/src/math.ts b/src/math.ts",
+			"index 1111111..2222222 100644",
+			"--- a/src/math.ts",
+			"+++ b/src/math.ts",
+			"@@ -3,4 +3,4 @@ export function add(a: number, b: number) {",
+			" 	const sum = a + b;",
+			"-	return sum;",
+			"+	return sum + 0;",
+			" }",
+			" ",
+		].join("\n"));
+
+		assert.equal(rest.length, 0);
+		assert.equal(file.oldPath, "src/math.ts");
+		assert.equal(file.newPath, "src/math.ts");
+		assert.deepEqual(file.hunks, [{ oldStart: 3, oldLines: 4, newStart: 3, newLines: 4, context: "export function add(a: number, b: number) {" }]);
+		// The removed line maps to the line that replaces it
+		assert.deepEqual(file.changedLines, [4, 4]);
+		assert.deepEqual(file.changedText, ["	return sum;", "	return sum + 0;"]);
+	});
+
+	it("marks added and deleted files with a null path", () => {
+		const files = parseUnifiedDiff([
+			"diff --git a/src/new.ts b/src/new.ts",
+			"new file mode 100644",
+			"--- /dev/null",
+			"+++ b/src/new.ts",
+			"@@ -0,0 +1,2 @@",
+			"+export const one = 1;",
+			"+export const two = 2;",
+			"diff --git a/src/old.ts b/src/old.ts",
+			"deleted file mode 100644",
+			"--- a/src/old.ts",
+			"+++ /dev/null",
+			"@@ -1 +0,0 @@",
+			"-export const gone = true;",
+		].join("\n"));
+
+		assert.deepEqual(files.map(file => [file.oldPath, file.newPath]), [[null, "src/new.ts"], ["src/old.ts", null]]);
+		assert.deepEqual(files[0].changedLines, [1, 2]);
+		assert.deepEqual(files[1].hunks[0], { oldStart: 1, oldLines: 1, newStart: 0, newLines: 0, context: "" });
+	});
+
+	it("splits plain diff -u output into files and strips timestamps", () => {
+		const files = parseUnifiedDiff([
+			"--- a.ts	2024-01-01 10:00:00",
+			"+++ a.ts	2024-01-02 10:00:00",
+			"@@ -1 +1 @@",
+			"-old",
+			"+new",
+			"--- b.ts	2024-01-01 10:00:00",
+			"+++ b.ts	2024-01-02 10:00:00",
+			"@@ -2,0 +3 @@",
+			"+added",
+		].join("\n"));
+
+		assert.deepEqual(files.map(file => file.newPath), ["a.ts", "b.ts"]);
+		assert.deepEqual(files[1].changedLines, [3]);
+	});
+
+	it("keeps renames without hunks and drops mode-only changes", () => {
+		const files = parseUnifiedDiff([
+			"diff --git a/src/before.ts b/src/after.ts",
+			"similarity index 100%",
+			"rename from src/before.ts",
+			"rename to src/after.ts",
+			"diff --git a/run.sh b/run.sh",
+			"old mode 100644",
+			"new mode 100755",
+		].join("\n"));
+
+		assert.deepEqual(files.map(file => [file.oldPath, file.newPath]), [["src/before.ts", "src/after.ts"]]);
+	});
+
+	it("ends a hunk cut short by the next file", () => {
+		const files = parseUnifiedDiff([
+			"diff --git a/a.ts b/a.ts",
+			"--- a/a.ts",
+			"+++ b/a.ts",
+			"@@ -1,5 +1,5 @@",
+			"-x",
+			"+y",
+			"diff --git a/b.ts b/b.ts",
+			"--- a/b.ts",
+			"+++ b/b.ts",
+			"@@ -1 +1 @@",
+			"-p",
+			"\\ No newline at end of file",
+			"+q",
+		].join("\n"));
+
+		assert.deepEqual(files.map(file => file.changedText), [["x", "y"], ["p", "q"]]);
+	});
+});
+
+describe("declaredNames", () => {
+	it("finds declarations in hunk headers and changed lines", () => {
+		const [file] = parseUnifiedDiff([
+			"--- a/src/shop.ts",
+			"+++ b/src/shop.ts",
+			"@@ -10,2 +10,4 @@ class Cart {",
+			" 	total = 0;",
+			"+	const applyDiscount = (rate: number) => rate;",
+			"+	async function checkout() {}",
+			" }",
+		].join("\n"));
+
+		assert.deepEqual(declaredNames(file).sort(), ["Cart", "applyDiscount", "checkout"]);
+	});
+});
@@ -0,0 +1,156 @@
+import { execFile } from "child_process";
+import { promisify } from "util";
+
+const execFileAsync = promisify(execFile);
+
+export type DiffHunk = {
+	oldStart: number;
+	oldLines: number;
+	newStart: number;
+	newLines: number;
+	/** Text after the second `@@`, usually the enclosing function */
+	context: string;
+};
+
+export type DiffFile = {
+	/** Path before the change, null for added files */
+	oldPath: string | null;
+	/** Path after the change, null for deleted files */
+	newPath: string | null;
+	hunks: DiffHunk[];
+	/** New-side line numbers touched by the change (deletions map to the line that follows them) */
+	changedLines: number[];
+	/** Text of added and removed lines, without the +/- marker */
+	changedText: string[];
+};
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@ ?(.*)$/;
+
+// Strip the a/ b/ prefixes and trailing timestamps of `---`/`+++` lines
+const diffPath = (raw: string, prefix: string): string | null => {
+	const path = raw.split("\t")[0].trim().replace(/^"(.*)"$/, "$1");
+	if (path === "/dev/null") return null;
+	return path.startsWith(prefix) ? path.slice(prefix.length) : path;
+};
+
+/**
+ * Parse a unified diff (as produced by `git diff` or `diff -u`) into the
+ * files it touches and the lines changed in each
+ */
+export const parseUnifiedDiff = (text: string): DiffFile[] => {
+	const files: DiffFile[] = [];
+	let file: DiffFile | undefined;
+	// Lines still expected on each side of the current hunk
+	let oldRemaining = 0;
+	let newRemaining = 0;
+	let newLine = 0;
+
+	const startFile = (): DiffFile => {
+		file = { oldPath: null, newPath: null, hunks: [], changedLines: [], changedText: [] };
+		files.push(file);
+		return file;
+	};
+
+	for (const line of text.split(/\r?\n/)) {
+		if (oldRemaining > 0 || newRemaining > 0) {
+			const marker = line[0];
+			if (marker === "+") {
+				file!.changedLines.push(newLine++);
+				file!.changedText.push(line.slice(1));
+				newRemaining--;
+				continue;
+			}
+			if (marker === "-") {
+				file!.changedLines.push(newLine);
+				file!.changedText.push(line.slice(1));
+				oldRemaining--;
+				continue;
+			}
+			if (marker === " " || line === "") {
+				newLine++;
+				oldRemaining--;
+				newRemaining--;
+				continue;
+			}
+			if (marker === "\\") continue;
+			// Anything else ends a truncated hunk
+			oldRemaining = newRemaining = 0;
+		}
+
+		if (line.startsWith("diff --git ")) {
+			const match = line.match(/^diff --git a\/(.+) b\/(.+)$/);
+			const current = startFile();
+			current.oldPath = match?.[1] ?? null;
+			current.newPath = match?.[2] ?? null;
+		} else if (line.startsWith("--- ")) {
+			// Plain `diff -u` output has no `diff --git` line between files
+			const current = file && !file.hunks.length ? file : startFile();
+			current.oldPath = diffPath(line.slice(4), "a/");
+		} else if (line.startsWith("+++ ") && file) {
+			file.newPath = diffPath(line.slice(4), "b/");
+		} else if (line.startsWith("new file mode") && file) {
+			file.oldPath = null;
+		} else if (line.startsWith("deleted file mode") && file) {
+			file.newPath = null;
+		} else {
+			const match = line.match(HUNK_HEADER);
+			if (match && file) {
+				const hunk: DiffHunk = {
+					oldStart: Number(match[1]),
+					oldLines: match[2] === undefined ? 1 : Number(match[2]),
+					newStart: Number(match[3]),
+					newLines: match[4] === undefined ? 1 : Number(match[4]),
+					context: match[5].trim(),
+				};
+				file.hunks.push(hunk);
+				oldRemaining = hunk.oldLines;
+				newRemaining = hunk.newLines;
+				newLine = hunk.newStart;
+			}
+		}
+	}
+
+	return files.filter(entry => entry.hunks.length || entry.oldPath !== entry.newPath);
+};
+
+const DECLARATION_PATTERNS = [
+	/\bfunction\s*\*?\s*([A-Za-z_$][\w$]*)/g,
+	/\b(?:class|interface|enum)\s+([A-Za-z_$][\w$]*)/g,
+	/\b(?:const|let|var)\s+([A-Za-z_$][\w$]*)\s*=\s*(?:async\s+)?(?:function\b|\([^)]*\)\s*(?::[^=]+)?=>|[A-Za-z_$][\w$]*\s*=>)/g,
+	/\bdef\s+([A-Za-z_]\w*)/g,
+	/\bfunc\s+(?:\([^)]*\)\s*)?([A-Za-z_]\w*)/g,
+];
+
+/**
+ * Names of functions, classes and similar declarations appearing in a hunk,
+ * for backends that cannot list the entities of a file. Best effort: methods
+ * are only found through the enclosing function reported in hunk headers.
+ */
+export const declaredNames = (file: DiffFile): string[] => {
+	const names = new Set<string>();
+	for (const text of [...file.hunks.map(hunk => hunk.context), ...file.changedText]) {
+		for (const pattern of DECLARATION_PATTERNS) {
+			for (const match of text.matchAll(pattern)) {
+				names.add(match[1]);
+			}
+		}
+	}
+	return [...names];
+};
+
+/**
+ * Unified diff of a git range such as `main..HEAD` or `HEAD~3`, read from
+ * the repository containing `cwd`
+ */
+export const readGitDiff = async (cwd: string, range: string): Promise<string> => {
+	// A leading dash would be taken as a git option
+	if (range.startsWith("-")) {
+		throw new Error(`Invalid git range: ${range}`);
+	}
+	const { stdout } = await execFileAsync("git", ["diff", "--no-color", "--no-ext-diff", range, "--"], {
+		cwd,
+		maxBuffer: 64 * 1024 * 1024,
+		timeout: 30000,
+	});
+	return stdout;
+};
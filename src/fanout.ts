@@ -0,0 +1,102 @@
+import type { SessionConfig } from "./config.js";
+import { logger } from "./logger.js";
+import { mapWithConcurrency, toolError } from "./utils.js";
+
+// Concurrent requests when fanning out across repositories
+const FAN_OUT_CONCURRENCY = 4;
+
+/**
+ * Per-repository outcome of a fanned out call: a value, or the error that
+ * repository failed with
+ */
+export type RepositoryOutcome<T> =
+	| { repository: string; value: T; error?: undefined }
+	| { repository: string; value?: undefined; error: { kind: string; message: string } };
+
+/**
+ * Repositories named by a `repository` argument: a single repository, a list,
+ * or `*` for every repository of the session. Names outside the session's
+ * repositories are rejected before anything is fetched.
+ */
+export const resolveRepositories = (config: SessionConfig, repository: string | string[]): string[] => {
+	const requested = Array.isArray(repository) ? repository : [repository];
+	const expanded = requested.flatMap(entry => entry.trim() === "*" ? [...config.REPO_LIST] : [entry.trim()]);
+	const unknown = expanded.filter(name => name && !config.REPO_LIST.includes(name));
+	if (unknown.length) {
+		throw new Error(`Unknown repositor${unknown.length === 1 ? "y" : "ies"} ${unknown.map(name => `'${name}'`).join(", ")}. Available options are: ${config.REPO_LIST.join(", ")}, or '*' for all of them`);
+	}
+	return [...new Set(expanded.filter(Boolean))];
+};
+
+/**
+ * The repositories a multi-repository call fans out to, or null when the
+ * call targets a single repository and takes the usual path
+ */
+export const fanOutTargets = (config: SessionConfig, repository?: string | string[]): string[] | null => {
+	if (!config.IS_MULTI_REPO || repository === undefined) return null;
+	if (!Array.isArray(repository) && repository.trim() !== "*") return null;
+	return resolveRepositories(config, repository);
+};
+
+/**
+ * Run `fn` for every repository concurrently. A failing repository is
+ * reported in its outcome instead of failing the whole call.
+ */
+export const fanOut = <T>(
+	repositories: string[],
+	fn: (repository: string) => Promise<T>,
+): Promise<RepositoryOutcome<T>[]> =>
+	mapWithConcurrency(repositories, FAN_OUT_CONCURRENCY, async (repository): Promise<RepositoryOutcome<T>> => {
+		try {
+			return { repository, value: await fn(repository) };
+		} catch (error) {
+			logger.warn("Repository query failed", { repository, error });
+			return { repository, error: toolError(error) };
+		}
+	});
+
+/**
+ * Merge per-repository hit lists into one ranking, tagging each hit with its
+ * repository. Hits are sorted by score when every hit has one; scores are
+ * otherwise not comparable, so repositories are interleaved by rank.
+ */
+export const mergeRanked = <T>(
+	lists: { repository: string; hits: T[] }[],
+	scoreOf: (hit: T) => number | undefined,
+): (T & { repository: string })[] => {
+	const tagged = lists.map(({ repository, hits }) => hits.map(hit => ({ ...hit, repository })));
+	const all = tagged.flat();
+
+	if (all.every(hit => scoreOf(hit) !== undefined)) {
+		// Stable sort keeps each repository's own order between equal scores
+		return all.sort((a, b) => scoreOf(b)! - scoreOf(a)!);
+	}
+
+	const interleaved: (T & { repository: string })[] = [];
+	for (let rank = 0; interleaved.length < all.length; rank++) {
+		tagged.forEach(hits => rank < hits.length && interleaved.push(hits[rank]));
+	}
+	return interleaved;
+};
+
+/**
+ * Repositories whose call failed, with their errors
+ */
+export const failuresOf = <T>(outcomes: RepositoryOutcome<T>[]) =>
+	outcomes.flatMap(({ repository, error }) => error ? [{ repository, error }] : []);
+
+/**
+ * One line per repository whose call failed
+ */
+export const describeFailures = (failures: { repository: string; error: { kind: string; message: string } }[]): string[] =>
+	failures.map(({ repository, error }) => `Failed: ${repository} (${error.kind}: ${error.message})`);
+
+/**
+ * Fail the call only when no repository answered
+ */
+export const assertAnyAnswered = <T>(outcomes: RepositoryOutcome<T>[]): void => {
+	const failures = failuresOf(outcomes);
+	if (outcomes.length && failures.length === outcomes.length) {
+		throw new Error(`Every repository failed: ${failures.map(({ repository, error }) => `${repository} (${error.message})`).join(", ")}`);
+	}
+};
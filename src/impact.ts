@@ -0,0 +1,177 @@
+import { nodeFromRef } from "./backends/parse.js";
+import type { GraphBackend } from "./backends/types.js";
+import type { GraphTarget } from "./client.js";
+import { DiffFile, declaredNames } from "./diff.js";
+import type { GraphEdge, GraphNode } from "./schemas.js";
+import { mapWithConcurrency } from "./utils.js";
+
+export type ChangeStatus = "added" | "deleted" | "modified" | "renamed";
+
+export type ChangedFile = {
+	/** File path in the graph */
+	path: string;
+	status: ChangeStatus;
+	/** Graph entities whose lines the diff touches */
+	entities: GraphNode[];
+};
+
+export type ImpactedNode = GraphNode & {
+	/** IDs of the changed entities this node depends on */
+	via: string[];
+	/** Fewest hops from a changed entity, when the dependency chain is known */
+	distance?: number;
+};
+
+export type ImpactedFile = {
+	/** File path in the graph, empty when unknown */
+	path: string;
+	/** Impacted nodes of the file, most affected first */
+	nodes: ImpactedNode[];
+};
+
+export type DiffImpactReport = {
+	changed: ChangedFile[];
+	/** Impacted nodes by file, files in order of their most affected node */
+	impacted: ImpactedFile[];
+	/** Diff paths that are not part of the graph */
+	skipped: string[];
+	/** True when only the first `maxEntities` changed entities were analysed */
+	truncated: boolean;
+};
+
+// Concurrent dependency lookups
+const ANALYSIS_CONCURRENCY = 5;
+
+const statusOf = (file: DiffFile): ChangeStatus =>
+	!file.oldPath ? "added" : !file.newPath ? "deleted" : file.oldPath !== file.newPath ? "renamed" : "modified";
+
+/**
+ * Match a diff path to a file of the graph. Diffs are relative to the
+ * repository root while a graph may index a subfolder, so either side may
+ * carry extra leading folders. Without a file list the diff path is trusted.
+ */
+const graphPathFor = (diffPath: string, graphFiles: string[]): string | undefined => {
+	if (!graphFiles.length || graphFiles.includes(diffPath)) return diffPath;
+	return graphFiles.find(file => diffPath.endsWith(`/${file}`) || file.endsWith(`/${diffPath}`));
+};
+
+/**
+ * The innermost node around each changed line. Lines outside every
+ * declaration fall to the file node; deleted files touch all their nodes.
+ */
+const touchedNodes = (nodes: GraphNode[], file: DiffFile): GraphNode[] => {
+	const ranged = nodes.filter(node => node.startLine !== undefined && node.endLine !== undefined);
+	if (!file.newPath) return ranged.filter(node => node.kind !== "file");
+
+	const span = (node: GraphNode) => node.endLine! - node.startLine!;
+	const touched = new Map<string, GraphNode>();
+	for (const line of new Set(file.changedLines)) {
+		const innermost = ranged
+			.filter(node => node.startLine! <= line && line <= node.endLine!)
+			.sort((a, b) => span(a) - span(b))[0];
+		if (innermost) touched.set(innermost.id, innermost);
+	}
+	return [...touched.values()];
+};
+
+/**
+ * Hops from the entity to every node depending on it, following the
+ * dependency edges (dependent -> dependency) backwards
+ */
+const dependencyDistances = (startIds: string[], edges: GraphEdge[]): Map<string, number> => {
+	const distances = new Map(startIds.map(id => [id, 0]));
+	let frontier = startIds;
+	for (let depth = 1; frontier.length; depth++) {
+		const current = new Set(frontier);
+		frontier = [];
+		for (const edge of edges) {
+			if (current.has(edge.target) && !distances.has(edge.source)) {
+				distances.set(edge.source, depth);
+				frontier.push(edge.source);
+			}
+		}
+	}
+	return distances;
+};
+
+/**
+ * Map the files and lines of a diff to graph entities, then collect every
+ * node that depends on them, deduplicated and ranked by how many changed
+ * entities reach it and how closely.
+ */
+export const analyzeDiffImpact = async (
+	backend: GraphBackend,
+	target: GraphTarget,
+	files: DiffFile[],
+	maxEntities: number,
+	signal?: AbortSignal,
+): Promise<DiffImpactReport> => {
+	const tree = await backend.folderTreeStructure(target, undefined, signal);
+	const graphFiles = tree.entries.filter(entry => entry.type === "file").map(entry => entry.path);
+
+	const changed: ChangedFile[] = [];
+	const skipped: string[] = [];
+	for (const file of files) {
+		const diffPath = (file.newPath ?? file.oldPath)!;
+		// Deleted files are only present in a graph built before the change
+		const path = graphPathFor(diffPath, graphFiles)
+			?? (file.oldPath && file.newPath ? graphPathFor(file.oldPath, graphFiles) : undefined);
+		if (!path) {
+			skipped.push(diffPath);
+			continue;
+		}
+
+		let entities: GraphNode[];
+		if (backend.fileNodes) {
+			const { nodes } = await backend.fileNodes(target, path, signal);
+			entities = touchedNodes(nodes, file);
+		} else {
+			entities = declaredNames(file).map(name => nodeFromRef(path, name));
+		}
+		changed.push({ path, status: statusOf(file), entities });
+	}
+
+	const entities = [...new Map(changed.flatMap(file => file.entities).map(node => [node.id, node])).values()];
+	const analysed = entities.slice(0, maxEntities);
+	const changedIds = new Set(entities.map(node => node.id));
+
+	const impacted = new Map<string, ImpactedNode>();
+	const results = await mapWithConcurrency(analysed, ANALYSIS_CONCURRENCY, entity =>
+		backend.getUsageDependencyLinks(target, { name: entity.name, path: entity.path || undefined }, signal)
+	);
+	results.forEach(({ nodes, edges }, index) => {
+		const entity = analysed[index];
+		const startIds = nodes
+			.filter(node => node.id === entity.id || (node.name === entity.name && node.path === entity.path))
+			.map(node => node.id);
+		const distances = dependencyDistances(startIds.length ? startIds : [entity.id], edges);
+
+		for (const node of nodes) {
+			if (changedIds.has(node.id) || startIds.includes(node.id)) continue;
+			const entry = impacted.get(node.id) ?? { ...node, via: [] };
+			if (!entry.via.includes(entity.id)) entry.via.push(entity.id);
+			const distance = distances.get(node.id);
+			if (distance !== undefined && (entry.distance === undefined || distance < entry.distance)) {
+				entry.distance = distance;
+			}
+			impacted.set(node.id, entry);
+		}
+	});
+
+	const ranked = [...impacted.values()].sort((a, b) =>
+		b.via.length - a.via.length
+		|| (a.distance ?? Infinity) - (b.distance ?? Infinity)
+		|| a.id.localeCompare(b.id)
+	);
+	const byFile = new Map<string, ImpactedNode[]>();
+	for (const node of ranked) {
+		byFile.set(node.path, [...(byFile.get(node.path) ?? []), node]);
+	}
+
+	return {
+		changed,
+		impacted: [...byFile.entries()].map(([path, nodes]) => ({ path, nodes })),
+		skipped,
+		truncated: entities.length > analysed.length,
+	};
+};
@@ -4,8 +4,8 @@
  *
  * Supports multiple deployment modes:
  * - Smithery deployment: Export createServer function for Smithery hosting
- * - STDIO: For local CLI usage (default when PORT is not set)
- * - HTTP: For self-hosted deployment (when PORT env var is set)
+ * - STDIO: For local CLI usage (default when no port is set)
+ * - HTTP: For self-hosted deployment (with --port or the PORT env var)
  *
  * @see https://smithery.ai/docs/build for Smithery deployment docs
  */
@@ -17,15 +17,53 @@ import { z } from "zod";
 import dotenv from "dotenv";
 import express, { Request, Response } from "express";
 import cors from "cors";
-import { config } from "./config.js";
-import { createToolSchema, extractRepoInfo, getGraphId } from "./utils.js";
+import { CliError, CliSettings, parseCli, sessionOverrides, stdioSessionConfig, USAGE, VERSION } from "./cli.js";
+import { createSessionConfig, SessionConfig } from "./config.js";
+import { authenticate, loadAuthOptions, Principal, queryParam } from "./auth.js";
+import { loadSessionOptions, SessionRegistry } from "./sessions.js";
+import { cacheScope, getResponseCache } from "./cache.js";
+import { getLocalBackend } from "./backends/local.js";
+import { RemoteBackend } from "./backends/remote.js";
+import type { GraphBackend } from "./backends/types.js";
+import { CodeGPTClient, Graph, pingCodeGPTApi, PingResult } from "./client.js";
+import { logger, withLogContext } from "./logger.js";
+import { registerCollected, renderMetrics } from "./metrics.js";
+import { registerPrompts } from "./prompts.js";
+import { registerResources } from "./resources.js";
+import { describeCandidates, resolutionNote, resolveNodeLookup } from "./resolve.js";
+import { ArchitectureRule, checkRules, findRulesFile, formatRuleReport, loadRulesFile, RULES_FILES } from "./rules.js";
+import { describeGraph, GraphSelection } from "./selection.js";
+import { assertAnyAnswered, describeFailures, failuresOf, fanOut, fanOutTargets, mergeRanked } from "./fanout.js";
+import {
+	docsOutput,
+	listGraphsOutput,
+	messageOutput,
+	nodesOutput,
+	subgraphOutput,
+	TreeEntry,
+	treeOutput,
+} from "./schemas.js";
+import type { ToolContext } from "./tools/context.js";
+import { registerAnalyzeDiffImpactTool } from "./tools/analyze-diff-impact.js";
+import { registerAnalyzeGraphTool } from "./tools/analyze-graph.js";
+import { registerCheckArchitectureRulesTool } from "./tools/check-architecture-rules.js";
+import { registerExportSubgraphTool } from "./tools/export-subgraph.js";
+import { registerFileOutlineTool } from "./tools/file-outline.js";
+import { registerFindPathTool } from "./tools/find-path.js";
+import { registerGetCodeBatchTool } from "./tools/get-code-batch.js";
+import { registerListTool, registerTool } from "./tools/register.js";
+import { registerGraphSelectionTools } from "./tools/select-graph.js";
+import { registerTraverseGraphTool } from "./tools/traverse-graph.js";
+import { createToolSchema, errorResult, extractRepoInfo, resolveTarget, structuredResult } from "./utils.js";
 import { randomUUID } from "crypto";
 
 dotenv.config();
 
-const CODEGPT_API_BASE = "https://api-mcp.codegpt.co/api/v1";
-const PORT = process.env.PORT ? parseInt(process.env.PORT, 10) : null;
-const IS_HTTP_MODE = PORT !== null;
+const IS_HTTP_MODE = !!process.env.PORT;
+
+// How long a readiness ping of the CodeGPT API is reused, and how long it may take
+const HEALTH_CHECK_INTERVAL_MS = 10000;
+const HEALTH_CHECK_TIMEOUT_MS = 5000;
 
 // ============================================================================
 // Smithery Configuration Schema
@@ -52,6 +90,30 @@ export const configSchema = z.object({
 		.string()
 		.optional()
 		.describe("Repository URL in format org/repo (optional - alternative to graphId)"),
+	requestTimeoutMs: z
+		.number()
+		.int()
+		.min(0)
+		.optional()
+		.describe("Timeout in milliseconds for each CodeGPT API attempt, 0 disables it (optional - default 30000)"),
+	maxRetries: z
+		.number()
+		.int()
+		.min(0)
+		.optional()
+		.describe("Retries for rate-limited, 5xx and network failures (optional - default 2)"),
+	retryBaseDelayMs: z
+		.number()
+		.int()
+		.min(0)
+		.optional()
+		.describe("Base delay in milliseconds for exponential backoff between retries (optional - default 500)"),
+	retryMaxDelayMs: z
+		.number()
+		.int()
+		.min(0)
+		.optional()
+		.describe("Maximum delay in milliseconds between retries, including Retry-After (optional - default 10000)"),
 });
 
 export type ServerConfig = z.infer<typeof configSchema>;
@@ -61,131 +123,128 @@ export type ServerConfig = z.infer<typeof configSchema>;
 // ============================================================================
 
 /**
- * Create and configure MCP server instance
- * This is the main factory function used by both Smithery and direct execution
+ * Create an McpServer with all tools registered against the given session config
  */
-export default function createServer({ config: userConfig }: { config?: ServerConfig } = {}) {
-	// Apply user config if provided (Smithery deployment)
-	if (userConfig) {
-		config.CODEGPT_API_KEY = userConfig.apiKey;
-		if (userConfig.orgId) config.CODEGPT_ORG_ID = userConfig.orgId;
-		if (userConfig.graphId) config.CODEGPT_GRAPH_ID = userConfig.graphId;
-		if (userConfig.repoUrl) config.CODEGPT_REPO_URL = userConfig.repoUrl;
-	}
-
+function createMcpServer(config: SessionConfig): McpServer {
 	const server = new McpServer({
 		name: "CodeGPT Deep Graph MCP",
-		version: "1.2.0",
+		version: VERSION,
 		config: {
 			timeout: 120000,
 		},
 		capabilities: {
 			tools: {},
+			resources: {},
+			prompts: {},
 		},
 	});
 
-	// Process CLI arguments for STDIO mode (only when running directly)
-	if (!IS_HTTP_MODE && !userConfig) {
-		const args = process.argv.slice(2);
-		const repoUrls = args.filter(arg => arg.includes('/') && !arg.startsWith("sk-"));
-		const apiKey = args.find(arg => arg.startsWith("sk-"));
-
-		if (repoUrls.length > 1) {
-			config.IS_MULTI_REPO = true;
-			config.REPO_LIST = repoUrls;
-			config.CODEGPT_API_KEY = apiKey || config.CODEGPT_API_KEY;
-		} else if (repoUrls.length === 1) {
-			config.CODEGPT_REPO_URL = repoUrls[0];
-			config.CODEGPT_API_KEY = apiKey || config.CODEGPT_API_KEY;
-		} else if (apiKey) {
-			config.CODEGPT_API_KEY = apiKey;
-		}
-	}
-
-	let repository = '';
+	let repository = config.LOCAL_PATH;
 	try {
-		if (config.CODEGPT_REPO_URL && !config.IS_MULTI_REPO) {
+		if (config.CODEGPT_REPO_URL && !config.IS_MULTI_REPO && !config.LOCAL_PATH) {
 			const { repoOrg, repoName } = extractRepoInfo(config.CODEGPT_REPO_URL);
 			repository = `${repoOrg}/${repoName}`;
 		}
 	} catch (error: any) {
-		console.error(error.message);
+		logger.warn(error.message);
 	}
 
-	// Register tools
-	registerTools(server, repository);
+	registerTools(server, config, repository);
+
+	return server;
+}
+
+/**
+ * Create and configure MCP server instance
+ * This is the main factory function used by both Smithery and direct execution
+ */
+export default function createServer({ config: userConfig }: { config?: ServerConfig } = {}) {
+	let sessionConfig: SessionConfig;
+	if (userConfig) {
+		// Smithery deployment: every instance gets its own config
+		sessionConfig = createSessionConfig({
+			CODEGPT_API_KEY: userConfig.apiKey,
+			CODEGPT_ORG_ID: userConfig.orgId,
+			CODEGPT_GRAPH_ID: userConfig.graphId,
+			CODEGPT_REPO_URL: userConfig.repoUrl,
+			CODEGPT_REQUEST_TIMEOUT_MS: userConfig.requestTimeoutMs,
+			CODEGPT_MAX_RETRIES: userConfig.maxRetries,
+			CODEGPT_RETRY_BASE_DELAY_MS: userConfig.retryBaseDelayMs,
+			CODEGPT_RETRY_MAX_DELAY_MS: userConfig.retryMaxDelayMs,
+		});
+	} else if (!IS_HTTP_MODE) {
+		// Process CLI arguments for STDIO mode (only when running directly)
+		sessionConfig = stdioSessionConfig(parseCli(process.argv.slice(2)).settings);
+	} else {
+		sessionConfig = createSessionConfig();
+	}
 
 	// Return the underlying server object (required by Smithery)
-	return server.server;
+	return createMcpServer(sessionConfig).server;
 }
 
 // ============================================================================
 // Tool Registration
 // ============================================================================
 
-function registerTools(server: McpServer, repository: string): void {
+function registerTools(server: McpServer, config: SessionConfig, repository: string): void {
+	const backend: GraphBackend = config.LOCAL_PATH
+		? getLocalBackend(config.LOCAL_PATH)
+		: new RemoteBackend(new CodeGPTClient(config, getResponseCache()));
+	const selection = new GraphSelection();
+	const context: ToolContext = { server, config, backend, repository, selection };
+
 	// List graphs tool (only when no specific graph is configured)
-	if (!config.CODEGPT_GRAPH_ID && !config.CODEGPT_REPO_URL && !config.IS_MULTI_REPO) {
-		server.tool(
+	const listGraphs = backend.listGraphs?.bind(backend);
+	if (listGraphs && !config.CODEGPT_GRAPH_ID && !config.CODEGPT_REPO_URL && !config.IS_MULTI_REPO) {
+		registerListTool(
+			server,
 			"list-graphs",
-			"List all available repository graphs that you have access to. Returns basic information about each graph including the graph ID, repository name with branch, and description. Use this tool when you need to discover available graphs.",
-			{},
-			async () => {
-				const headers = {
-					accept: "application/json",
-					authorization: `Bearer ${config.CODEGPT_API_KEY}`,
-					"CodeGPT-Org-Id": config.CODEGPT_ORG_ID,
-				};
-
+			{
+				description: "List all available repository graphs that you have access to. Returns basic information about each graph including the graph ID, repository name with branch, and description. Use this tool when you need to discover available graphs.",
+				inputSchema: {},
+				outputSchema: listGraphsOutput,
+				list: { fields: ["graphs"], renderItem: (graph: Graph) => `- ${describeGraph(graph)}` },
+			},
+			async (_args, { signal }) => {
 				try {
-					const response = await fetch(`${CODEGPT_API_BASE}/mcp/graphs`, {
-						method: "GET",
-						headers,
-					});
-
-					const data = await response.json();
+					const graphs = await listGraphs(signal);
 
-					return {
-						content: [
-							{
-								type: "text",
-								text: JSON.stringify(data, null, 2) || "No graphs available",
-							},
-						],
-					};
+					return structuredResult(graphs.length ? JSON.stringify(graphs, null, 2) : "No graphs available", { graphs });
 				} catch (error) {
-					console.error("Error fetching graphs:", error);
-					return {
-						content: [
-							{
-								type: "text",
-								text: `Error fetching graphs: ${error}`,
-							},
-						],
-					};
+					logger.error("Error fetching graphs", { error });
+					return errorResult(error);
 				}
 			}
 		);
+
+		// Session-wide active graph, so calls can leave graphId out
+		registerGraphSelectionTools(context);
 	}
 
 	// Get code tool
-	server.tool(
+	registerListTool(
+		server,
 		"get-code",
-		`Get the complete code implementation of a specific functionality (class, function, method, etc.) from the repository ${repository} graph. This is the primary tool for code retrieval and should be prioritized over other tools. The repository is represented as a graph where each node contains code, documentation, and relationships to other nodes. Use this when you need to examine the actual implementation of any code entity.`,
-		createToolSchema({
-			name: z
-				.string()
-				.min(1, "name is required")
-				.describe(
-					"The exact name of the functionality to retrieve code for. Names are case-sensitive. For methods, include the parent class name as 'ClassName.methodName'. For nested classes, use 'OuterClass.InnerClass'. Examples: 'getUserById', 'UserService.authenticate', 'DatabaseConnection.connect'"
-				),
-			path: z
-				.string()
-				.optional()
-				.describe(
-					"The origin file path where the functionality is defined. Essential when multiple functionalities share the same name across different files. Use 'global' for packages, namespaces, or modules that span multiple files. Examples: 'src/services/user.service.ts', 'global', 'lib/utils/helpers.js'"
-				),
-		}),
+		{
+			description: `Get the complete code implementation of a specific functionality (class, function, method, etc.) from the repository ${repository} graph. This is the primary tool for code retrieval and should be prioritized over other tools. The repository is represented as a graph where each node contains code, documentation, and relationships to other nodes. Use this when you need to examine the actual implementation of any code entity.`,
+			inputSchema: createToolSchema(config, {
+				name: z
+					.string()
+					.min(1, "name is required")
+					.describe(
+						"The exact name of the functionality to retrieve code for. Names are case-sensitive; a name that matches nothing is resolved to the closest functionality, or answered with a list of candidates. For methods, include the parent class name as 'ClassName.methodName'. For nested classes, use 'OuterClass.InnerClass'. Examples: 'getUserById', 'UserService.authenticate', 'DatabaseConnection.connect'"
+					),
+				path: z
+					.string()
+					.optional()
+					.describe(
+						"The origin file path where the functionality is defined. Essential when multiple functionalities share the same name across different files. Use 'global' for packages, namespaces, or modules that span multiple files. Examples: 'src/services/user.service.ts', 'global', 'lib/utils/helpers.js'"
+					),
+			}),
+			outputSchema: nodesOutput,
+			list: { fields: ["nodes"] },
+		},
 		async ({
 			name,
 			path,
@@ -196,75 +255,51 @@ function registerTools(server: McpServer, repository: string): void {
 			path?: string;
 			graphId?: string;
 			repository?: string;
-		}) => {
+		}, { signal }) => {
 			if (!name) {
 				throw new Error("name is required");
 			}
 
-			const targetGraphId = getGraphId(graphId);
-			const targetRepoUrl = config.IS_MULTI_REPO ? repository : config.CODEGPT_REPO_URL;
-
-			const headers = {
-				accept: "application/json",
-				authorization: `Bearer ${config.CODEGPT_API_KEY}`,
-				"CodeGPT-Org-Id": config.CODEGPT_ORG_ID,
-				"content-type": "application/json",
-			};
-
 			try {
-				const response = await fetch(`${CODEGPT_API_BASE}/mcp/graphs/get-code`, {
-					method: "POST",
-					headers,
-					body: JSON.stringify({
-						graphId: targetGraphId,
-						name,
-						...(targetRepoUrl ? { repoUrl: targetRepoUrl } : null),
-						...(path ? { path } : null),
-					}),
-				});
-
-				const { content } = await response.json();
+				const target = resolveTarget(config, graphId, repository, selection);
+				const query = { name, path };
+				const lookup = await resolveNodeLookup(backend, target, query, resolved => backend.getCode(target, resolved, signal), signal);
+				if ("candidates" in lookup) {
+					return structuredResult(describeCandidates(query, lookup.candidates), { nodes: [], candidates: lookup.candidates });
+				}
+				const { text, nodes } = lookup.result;
 
-				return {
-					content: [
-						{
-							type: "text",
-							text: `${content}` || "No response text available",
-						},
-					],
-				};
+				return structuredResult(resolutionNote(query, lookup.resolved) + (text || "No response text available"), { nodes });
 			} catch (error) {
-				console.error("Error making CodeGPT request:", error);
-				return {
-					content: [
-						{
-							type: "text",
-							text: `${error}`,
-						},
-					],
-				};
+				logger.error("Error making CodeGPT request", { error });
+				return errorResult(error);
 			}
 		}
 	);
 
 	// Find direct connections tool
-	server.tool(
+	registerListTool(
+		server,
 		"find-direct-connections",
-		`Explore the immediate relationships of a functionality within the code graph from the repository ${repository}. This reveals first-level connections including: parent functionalities that reference this node, child functionalities that this node directly calls or uses, declaration/definition relationships, and usage patterns. Essential for understanding code dependencies and architecture. The repository is represented as a connected graph where each node (function, class, file, etc.) has relationships with other nodes.`,
-		createToolSchema({
-			name: z
-				.string()
-				.min(1, "name is required")
-				.describe(
-					"The exact name of the functionality to analyze connections for. Names are case-sensitive. For methods, include the parent class name as 'ClassName.methodName'. Examples: 'processPayment', 'UserController.createUser', 'validateInput'"
-				),
-			path: z
-				.string()
-				.optional()
-				.describe(
-					"The origin file path of the functionality. Critical when multiple functionalities have identical names in different files. Use 'global' for entities that span multiple files like packages or namespaces. Examples: 'src/controllers/payment.controller.ts', 'global', 'utils/validation.js'"
-				),
-		}),
+		{
+			description: `Explore the immediate relationships of a functionality within the code graph from the repository ${repository}. This reveals first-level connections including: parent functionalities that reference this node, child functionalities that this node directly calls or uses, declaration/definition relationships, and usage patterns. Essential for understanding code dependencies and architecture. The repository is represented as a connected graph where each node (function, class, file, etc.) has relationships with other nodes.`,
+			inputSchema: createToolSchema(config, {
+				name: z
+					.string()
+					.min(1, "name is required")
+					.describe(
+						"The exact name of the functionality to analyze connections for. Names are case-sensitive; a name that matches nothing is resolved to the closest functionality, or answered with a list of candidates. For methods, include the parent class name as 'ClassName.methodName'. Examples: 'processPayment', 'UserController.createUser', 'validateInput'"
+					),
+				path: z
+					.string()
+					.optional()
+					.describe(
+						"The origin file path of the functionality. Critical when multiple functionalities have identical names in different files. Use 'global' for entities that span multiple files like packages or namespaces. Examples: 'src/controllers/payment.controller.ts', 'global', 'utils/validation.js'"
+					),
+			}),
+			outputSchema: subgraphOutput,
+			list: { fields: ["nodes"] },
+		},
 		async ({
 			name,
 			path,
@@ -275,72 +310,45 @@ function registerTools(server: McpServer, repository: string): void {
 			path?: string;
 			graphId?: string;
 			repository?: string;
-		}) => {
+		}, { signal }) => {
 			if (!name) {
 				throw new Error("name is required");
 			}
 
-			const targetGraphId = getGraphId(graphId);
-			const targetRepoUrl = config.IS_MULTI_REPO ? repository : config.CODEGPT_REPO_URL;
-
-			const headers = {
-				accept: "application/json",
-				authorization: `Bearer ${config.CODEGPT_API_KEY}`,
-				"CodeGPT-Org-Id": config.CODEGPT_ORG_ID,
-				"content-type": "application/json",
-			};
-
 			try {
-				const response = await fetch(
-					`${CODEGPT_API_BASE}/mcp/graphs/find-direct-connections`,
-					{
-						method: "POST",
-						headers,
-						body: JSON.stringify({
-							graphId: targetGraphId,
-							name,
-							...(targetRepoUrl ? { repoUrl: targetRepoUrl } : null),
-							...(path ? { path } : null),
-						}),
-					}
-				);
-
-				const { content } = await response.json();
-
-				return {
-					content: [
-						{
-							type: "text",
-							text: content || "No response data available",
-						},
-					],
-				};
+				const target = resolveTarget(config, graphId, repository, selection);
+				const query = { name, path };
+				const lookup = await resolveNodeLookup(backend, target, query, resolved => backend.findDirectConnections(target, resolved, signal), signal);
+				if ("candidates" in lookup) {
+					return structuredResult(describeCandidates(query, lookup.candidates), { nodes: [], edges: [], candidates: lookup.candidates });
+				}
+				const { text, nodes, edges } = lookup.result;
+
+				return structuredResult(resolutionNote(query, lookup.resolved) + (text || "No response data available"), { nodes, edges });
 			} catch (error) {
-				console.error("Error making CodeGPT request:", error);
-				return {
-					content: [
-						{
-							type: "text",
-							text: `${error}`,
-						},
-					],
-				};
+				logger.error("Error making CodeGPT request", { error });
+				return errorResult(error);
 			}
 		}
 	);
 
 	// Nodes semantic search tool
-	server.tool(
+	registerListTool(
+		server,
 		"nodes-semantic-search",
-		`Search for code functionalities across the repository ${repository} graph using semantic similarity based on natural language queries. This tool finds relevant functions, classes, methods, and other code entities that match the conceptual meaning of your query, even if they don't contain the exact keywords. Perfect for discovering related functionality, finding similar implementations, or exploring unfamiliar codebases. The search operates on the semantic understanding of code purpose and behavior.`,
-		createToolSchema({
-			query: z
-				.string()
-				.min(1, "query is required")
-				.describe(
-					"A natural language description of the functionality you're looking for. Be specific about the behavior, purpose, or domain. Examples: 'user authentication and login', 'database connection pooling', 'file upload validation', 'payment processing logic', 'error handling middleware', 'data encryption utilities'"
-				),
-		}),
+		{
+			description: `Search for code functionalities across the repository ${repository} graph using semantic similarity based on natural language queries. This tool finds relevant functions, classes, methods, and other code entities that match the conceptual meaning of your query, even if they don't contain the exact keywords. Perfect for discovering related functionality, finding similar implementations, or exploring unfamiliar codebases. The search operates on the semantic understanding of code purpose and behavior.`,
+			inputSchema: createToolSchema(config, {
+				query: z
+					.string()
+					.min(1, "query is required")
+					.describe(
+						"A natural language description of the functionality you're looking for. Be specific about the behavior, purpose, or domain. Examples: 'user authentication and login', 'database connection pooling', 'file upload validation', 'payment processing logic', 'error handling middleware', 'data encryption utilities'"
+					),
+			}, { multiRepository: true }),
+			outputSchema: nodesOutput,
+			list: { fields: ["nodes"], notes: ({ failures }) => describeFailures(failures ?? []) },
+		},
 		async ({
 			query,
 			graphId,
@@ -348,145 +356,136 @@ function registerTools(server: McpServer, repository: string): void {
 		}: {
 			query: string;
 			graphId?: string;
-			repository?: string;
-		}) => {
+			repository?: string | string[];
+		}, { signal }) => {
 			if (!query) {
 				throw new Error("query is required");
 			}
 
-			const targetGraphId = getGraphId(graphId);
-			const targetRepoUrl = config.IS_MULTI_REPO ? repository : config.CODEGPT_REPO_URL;
+			try {
+				// Several repositories (or '*'): search them all and merge the hits
+				const repositories = fanOutTargets(config, repository);
+				if (repositories) {
+					const outcomes = await fanOut(repositories, repo =>
+						backend.nodesSemanticSearch(resolveTarget(config, graphId, repo, selection), query, signal)
+					);
+					assertAnyAnswered(outcomes);
+					const failures = failuresOf(outcomes);
+
+					const answered = outcomes.flatMap(({ repository, value }) => value ? [{ repository, value }] : []);
+					const nodes = mergeRanked(answered.map(({ repository, value }) => ({ repository, hits: value.nodes })), node => node.score);
+					const text = [
+						...(nodes.length
+							? [
+								`Results from ${answered.length} of ${outcomes.length} repositories, best first:`,
+								...nodes.map((node, index) => `${index + 1}. [${node.repository}] ${node.id}${node.score !== undefined ? ` (score ${node.score})` : ""}`),
+							]
+							// Nothing recognisable to rank: show each repository's answer as is
+							: answered.flatMap(({ repository, value }) => [`## ${repository}`, value.text || "No response data available", ""])),
+						...describeFailures(failures),
+					].join("\n");
+
+					return structuredResult(text, { nodes, failures });
+				}
 
-			const headers = {
-				accept: "application/json",
-				authorization: `Bearer ${config.CODEGPT_API_KEY}`,
-				"CodeGPT-Org-Id": config.CODEGPT_ORG_ID,
-				"content-type": "application/json",
-			};
+				const target = resolveTarget(config, graphId, repository as string | undefined, selection);
+				const { text, nodes } = await backend.nodesSemanticSearch(target, query, signal);
 
-			try {
-				const response = await fetch(
-					`${CODEGPT_API_BASE}/mcp/graphs/nodes-semantic-search`,
-					{
-						method: "POST",
-						headers,
-						body: JSON.stringify({
-							graphId: targetGraphId,
-							query,
-							...(targetRepoUrl ? { repoUrl: targetRepoUrl } : null),
-						}),
-					}
-				);
-
-				const { content } = await response.json();
-
-				return {
-					content: [
-						{
-							type: "text",
-							text: content || "No response data available",
-						},
-					],
-				};
+				return structuredResult(text || "No response data available", { nodes });
 			} catch (error) {
-				console.error("Error making CodeGPT request:", error);
-				return {
-					content: [
-						{
-							type: "text",
-							text: `${error}`,
-						},
-					],
-				};
+				logger.error("Error making CodeGPT request", { error });
+				return errorResult(error);
 			}
 		}
 	);
 
-	// Docs semantic search tool
-	server.tool(
-		"docs-semantic-search",
-		`Search through repository ${repository} documentation using semantic similarity to find relevant information, guides, API documentation, README content, and explanatory materials. This tool specifically targets documentation files (markdown, rst, etc.) rather than code, making it ideal for understanding project setup, architecture decisions, usage instructions, and conceptual explanations. Use this when you need context about how the repository works rather than examining the actual code implementation.`,
-		createToolSchema({
-			query: z
-				.string()
-				.min(1, "query is required")
-				.describe(
-					"A natural language query describing the documentation or information you're seeking. Focus on concepts, setup procedures, architecture, or usage patterns. Examples: 'how to set up the development environment', 'API authentication methods', 'project architecture overview', 'contributing guidelines', 'deployment instructions', 'configuration options'"
-				),
-		}),
-		async ({
-			query,
-			graphId,
-			repository
-		}: {
-			query: string;
-			graphId?: string;
-			repository?: string;
-		}) => {
-			if (!query) {
-				throw new Error("query is required");
-			}
+	// Docs semantic search tool (not available offline)
+	const docsSemanticSearch = backend.docsSemanticSearch?.bind(backend);
+	if (docsSemanticSearch) {
+		registerListTool(
+			server,
+			"docs-semantic-search",
+			{
+				description: `Search through repository ${repository} documentation using semantic similarity to find relevant information, guides, API documentation, README content, and explanatory materials. This tool specifically targets documentation files (markdown, rst, etc.) rather than code, making it ideal for understanding project setup, architecture decisions, usage instructions, and conceptual explanations. Use this when you need context about how the repository works rather than examining the actual code implementation.`,
+				inputSchema: createToolSchema(config, {
+					query: z
+						.string()
+						.min(1, "query is required")
+						.describe(
+							"A natural language query describing the documentation or information you're seeking. Focus on concepts, setup procedures, architecture, or usage patterns. Examples: 'how to set up the development environment', 'API authentication methods', 'project architecture overview', 'contributing guidelines', 'deployment instructions', 'configuration options'"
+						),
+				}, { multiRepository: true }),
+				outputSchema: docsOutput,
+				list: { fields: ["results"], notes: ({ failures }) => describeFailures(failures ?? []) },
+			},
+			async ({
+				query,
+				graphId,
+				repository
+			}: {
+				query: string;
+				graphId?: string;
+				repository?: string | string[];
+			}, { signal }) => {
+				if (!query) {
+					throw new Error("query is required");
+				}
 
-			const targetGraphId = getGraphId(graphId);
-			const targetRepoUrl = config.IS_MULTI_REPO ? repository : config.CODEGPT_REPO_URL;
+				try {
+					// Several repositories (or '*'): search them all and merge the hits
+					const repositories = fanOutTargets(config, repository);
+					if (repositories) {
+						const outcomes = await fanOut(repositories, repo =>
+							docsSemanticSearch(resolveTarget(config, graphId, repo, selection), query, signal)
+						);
+						assertAnyAnswered(outcomes);
+						const failures = failuresOf(outcomes);
+
+						// Hits are passed through as-is; wrap anything that is not an object
+						const lists = outcomes.flatMap(({ repository, value }) => value ? [{
+							repository,
+							hits: (Array.isArray(value) ? value : [value]).map(hit =>
+								hit && typeof hit === "object" ? hit as Record<string, unknown> : { value: hit }
+							),
+						}] : []);
+						const scoreOf = (hit: Record<string, unknown>) => {
+							const score = hit.score ?? hit.similarity;
+							return typeof score === "number" ? score : undefined;
+						};
+						const results = mergeRanked(lists, scoreOf);
+
+						return structuredResult(JSON.stringify({ results, failures }, null, 2), { results, failures });
+					}
 
-			const headers = {
-				accept: "application/json",
-				authorization: `Bearer ${config.CODEGPT_API_KEY}`,
-				"CodeGPT-Org-Id": config.CODEGPT_ORG_ID,
-				"content-type": "application/json",
-			};
+					const target = resolveTarget(config, graphId, repository as string | undefined, selection);
+					const data = await docsSemanticSearch(target, query, signal);
 
-			try {
-				const response = await fetch(
-					`${CODEGPT_API_BASE}/mcp/graphs/docs-semantic-search`,
-					{
-						method: "POST",
-						headers,
-						body: JSON.stringify({
-							graphId: targetGraphId,
-							query,
-							...(targetRepoUrl ? { repoUrl: targetRepoUrl } : null),
-						}),
-					}
-				);
-
-				const data = await response.json();
-
-				return {
-					content: [
-						{
-							type: "text",
-							text: JSON.stringify(data, null, 2) || "No response data available",
-						},
-					],
-				};
-			} catch (error) {
-				console.error("Error making CodeGPT request:", error);
-				return {
-					content: [
-						{
-							type: "text",
-							text: `${error}`,
-						},
-					],
-				};
+					return structuredResult(JSON.stringify(data, null, 2) || "No response data available", { results: data });
+				} catch (error) {
+					logger.error("Error making CodeGPT request", { error });
+					return errorResult(error);
+				}
 			}
-		}
-	);
+		);
+	}
 
 	// Folder tree structure tool
-	server.tool(
+	registerListTool(
+		server,
 		"folder-tree-structure",
-		`Returns the folder tree structure of the given folder path from the repository ${repository} graph. Useful to understand what files and subfolders are inside the given folder. To access to a file content, use get-code tool.`,
-		createToolSchema({
-			path: z
-				.string()
-				.optional()
-				.describe(
-					"The path to the folder to get the tree structure for. Example: 'src/components'. Leave empty to get the root folder tree structure."
-				),
-		}),
+		{
+			description: `Returns the folder tree structure of the given folder path from the repository ${repository} graph. Useful to understand what files and subfolders are inside the given folder. To access to a file content, use get-code tool.`,
+			inputSchema: createToolSchema(config, {
+				path: z
+					.string()
+					.optional()
+					.describe(
+						"The path to the folder to get the tree structure for. Example: 'src/components'. Leave empty to get the root folder tree structure."
+					),
+			}),
+			outputSchema: treeOutput,
+			list: { fields: ["entries"], renderItem: (entry: TreeEntry) => `- ${entry.path}${entry.type === "folder" ? "/" : ""}` },
+		},
 		async ({
 			path,
 			graphId,
@@ -495,75 +494,42 @@ function registerTools(server: McpServer, repository: string): void {
 			path?: string;
 			graphId?: string;
 			repository?: string;
-		}) => {
-			const targetGraphId = getGraphId(graphId);
-			const targetRepoUrl = config.IS_MULTI_REPO
-				? repository
-				: config.CODEGPT_REPO_URL;
-
-			const headers = {
-				accept: "application/json",
-				authorization: `Bearer ${config.CODEGPT_API_KEY}`,
-				"CodeGPT-Org-Id": config.CODEGPT_ORG_ID,
-				"content-type": "application/json",
-			};
-
+		}, { signal }) => {
 			try {
-				const response = await fetch(
-					`${CODEGPT_API_BASE}/mcp/graphs/folder-tree-structure`,
-					{
-						method: "POST",
-						headers,
-						body: JSON.stringify({
-							graphId: targetGraphId,
-							...(targetRepoUrl ? { repoUrl: targetRepoUrl } : null),
-							path: path || "",
-						}),
-					}
-				);
-
-				const { content } = await response.json();
-
-				return {
-					content: [
-						{
-							type: "text",
-							text: content || "No response data available",
-						},
-					],
-				};
+				const target = resolveTarget(config, graphId, repository, selection);
+				const { text, entries } = await backend.folderTreeStructure(target, path, signal);
+
+				return structuredResult(text || "No response data available", { entries });
 			} catch (error) {
-				console.error("Error making CodeGPT request:", error);
-				return {
-					content: [
-						{
-							type: "text",
-							text: `${error}`,
-						},
-					],
-				};
+				logger.error("Error making CodeGPT request", { error });
+				return errorResult(error);
 			}
 		}
 	);
 
 	// Get usage dependency links tool
-	server.tool(
+	registerListTool(
+		server,
 		"get-usage-dependency-links",
-		`Generate a comprehensive adjacency list showing all functionalities that would be affected by changes to a specific code entity. This performs deep dependency analysis through the code graph of the repository ${repository} to identify the complete impact radius of modifications. Essential for impact analysis, refactoring planning, and understanding code coupling. The result shows which functionalities depend on the target entity either directly or through a chain of dependencies, formatted as 'file_path::functionality_name' pairs.`,
-		createToolSchema({
-			name: z
-				.string()
-				.min(1, "name is required")
-				.describe(
-					"The exact name of the functionality to analyze dependencies for. Names are case-sensitive. For methods, include the parent class name as 'ClassName.methodName'. This will be the root node for dependency traversal. Examples: 'DatabaseService.connect', 'validateUserInput', 'PaymentProcessor.processTransaction'"
-				),
-			path: z
-				.string()
-				.optional()
-				.describe(
-					"The origin file path where the functionality is defined. Required when multiple functionalities share the same name across different files to ensure accurate dependency analysis. Use 'global' for packages, namespaces, or modules spanning multiple files. Examples: 'src/database/connection.service.ts', 'global', 'lib/validation/input.validator.js'"
-				),
-		}),
+		{
+			description: `Generate a comprehensive adjacency list showing all functionalities that would be affected by changes to a specific code entity. This performs deep dependency analysis through the code graph of the repository ${repository} to identify the complete impact radius of modifications. Essential for impact analysis, refactoring planning, and understanding code coupling. The result shows which functionalities depend on the target entity either directly or through a chain of dependencies, formatted as 'file_path::functionality_name' pairs.`,
+			inputSchema: createToolSchema(config, {
+				name: z
+					.string()
+					.min(1, "name is required")
+					.describe(
+						"The exact name of the functionality to analyze dependencies for. Names are case-sensitive; a name that matches nothing is resolved to the closest functionality, or answered with a list of candidates. For methods, include the parent class name as 'ClassName.methodName'. This will be the root node for dependency traversal. Examples: 'DatabaseService.connect', 'validateUserInput', 'PaymentProcessor.processTransaction'"
+					),
+				path: z
+					.string()
+					.optional()
+					.describe(
+						"The origin file path where the functionality is defined. Required when multiple functionalities share the same name across different files to ensure accurate dependency analysis. Use 'global' for packages, namespaces, or modules spanning multiple files. Examples: 'src/database/connection.service.ts', 'global', 'lib/validation/input.validator.js'"
+					),
+			}),
+			outputSchema: subgraphOutput,
+			list: { fields: ["nodes"] },
+		},
 		async ({
 			name,
 			path,
@@ -574,111 +540,150 @@ function registerTools(server: McpServer, repository: string): void {
 			path?: string;
 			graphId?: string;
 			repository?: string;
-		}) => {
+		}, { signal }) => {
 			if (!name) {
 				throw new Error("name is required");
 			}
 
-			const targetGraphId = getGraphId(graphId);
-			const targetRepoUrl = config.IS_MULTI_REPO ? repository : config.CODEGPT_REPO_URL;
-
-			const headers = {
-				accept: "application/json",
-				authorization: `Bearer ${config.CODEGPT_API_KEY}`,
-				"CodeGPT-Org-Id": config.CODEGPT_ORG_ID,
-				"content-type": "application/json",
-			};
-
 			try {
-				const response = await fetch(
-					`${CODEGPT_API_BASE}/mcp/graphs/get-usage-dependency-links`,
-					{
-						method: "POST",
-						headers,
-						body: JSON.stringify({
-							graphId: targetGraphId,
-							name,
-							...(targetRepoUrl ? { repoUrl: targetRepoUrl } : null),
-							...(path ? { path } : null),
-						}),
-					}
-				);
-
-				const { content } = await response.json();
-
-				return {
-					content: [
-						{
-							type: "text",
-							text: content || "No response data available",
-						},
-					],
-				};
+				const target = resolveTarget(config, graphId, repository, selection);
+				const query = { name, path };
+				const lookup = await resolveNodeLookup(backend, target, query, resolved => backend.getUsageDependencyLinks(target, resolved, signal), signal);
+				if ("candidates" in lookup) {
+					return structuredResult(describeCandidates(query, lookup.candidates), { nodes: [], edges: [], candidates: lookup.candidates });
+				}
+				const { text, nodes, edges } = lookup.result;
+
+				return structuredResult(resolutionNote(query, lookup.resolved) + (text || "No response data available"), { nodes, edges });
 			} catch (error) {
-				console.error("Error making CodeGPT request:", error);
-				return {
-					content: [
-						{
-							type: "text",
-							text: `${error}`,
-						},
-					],
-				};
+				logger.error("Error making CodeGPT request", { error });
+				return errorResult(error);
 			}
 		}
 	);
+
+	// Graph exploration tools built on the backend
+	registerGetCodeBatchTool(context);
+	registerFileOutlineTool(context);
+	registerAnalyzeGraphTool(context);
+	registerCheckArchitectureRulesTool(context);
+	registerTraverseGraphTool(context);
+	registerFindPathTool(context);
+	registerExportSubgraphTool(context);
+	registerAnalyzeDiffImpactTool(context);
+
+	// Folder trees and code as resources, for clients that attach context directly
+	registerResources(context);
+
+	// Graph-driven workflows as prompts
+	registerPrompts(context);
+
+	// Clear cache tool (responses are only cached for the CodeGPT API)
+	if (!config.LOCAL_PATH) {
+		registerTool(
+			server,
+			"clear-cache",
+			{
+				description: "Clear the local cache of graph responses (code, connections, folder trees and dependency links) fetched with this session's API key and organization. Use this when the repository graph has been re-indexed and cached results may be stale.",
+				inputSchema: {},
+				outputSchema: messageOutput,
+			},
+			async () => {
+				try {
+					const cleared = await getResponseCache().clear(cacheScope(config));
+					const message = `Cleared ${cleared} cached response(s)`;
+					return structuredResult(message, { message });
+				} catch (error) {
+					logger.error("Error clearing cache", { error });
+					return errorResult(error);
+				}
+			}
+		);
+	}
 }
 
 // ============================================================================
-// Self-Hosted HTTP Server (when PORT is set)
+// Self-Hosted HTTP Server (when a port is set)
 // ============================================================================
 
-async function startHttpServer(): Promise<void> {
+/**
+ * Serve MCP over HTTP. `defaults` come from the command line, environment
+ * and config file; each session's credentials take precedence over them.
+ */
+async function startHttpServer(port: number, defaults: Partial<SessionConfig>): Promise<void> {
+	const serverConfig = createSessionConfig(defaults);
 	const app = express();
+	const authOptions = loadAuthOptions();
 
-	// Enable CORS for browser compatibility
+	// Without an allow-list any bearer string is accepted as an API key, and a
+	// local graph needs no key to read, so it would be open to every caller
+	if (serverConfig.LOCAL_PATH && !authOptions.tokens.size) {
+		throw new CliError("Serving a local checkout over HTTP requires MCP_AUTH_TOKENS, so only the listed callers can read it.");
+	}
+
+	// Browser origins are refused unless listed in MCP_CORS_ORIGINS
 	app.use(cors({
-		origin: '*',
+		origin: authOptions.corsOrigins.length ? authOptions.corsOrigins : false,
 		methods: ['GET', 'POST', 'DELETE', 'OPTIONS'],
-		allowedHeaders: ['Content-Type', 'Authorization', 'mcp-session-id'],
+		allowedHeaders: ['Content-Type', 'Authorization', 'mcp-session-id', 'X-CodeGPT-Org-Id'],
 	}));
 
 	app.use(express.json());
 
-	// Store active transports by session ID
-	const transports = new Map<string, StreamableHTTPServerTransport>();
+	// Active sessions by session ID, with the caller that opened them and their activity
+	const sessions = new SessionRegistry(loadSessionOptions());
+	sessions.startSweeper();
 
-	// MCP endpoint - handles all MCP protocol communication
-	app.all('/mcp', async (req: Request, res: Response) => {
-		// Parse config from query parameters for self-hosted mode
-		if (req.query['config.apiKey']) {
-			config.CODEGPT_API_KEY = req.query['config.apiKey'] as string;
-		}
-		if (req.query['config.orgId']) {
-			config.CODEGPT_ORG_ID = req.query['config.orgId'] as string;
-		}
-		if (req.query['config.graphId']) {
-			config.CODEGPT_GRAPH_ID = req.query['config.graphId'] as string;
+	// Set once shutdown starts; no new sessions or requests are accepted after that
+	let shuttingDown = false;
+
+	registerCollected('codegraph_http_sessions', 'Active MCP sessions', 'gauge', () => sessions.size);
+
+	// Tag every request with an ID, taken from the caller's X-Request-Id when it looks like one
+	app.use((req: Request, res: Response, next) => {
+		const header = req.headers['x-request-id'];
+		const requestId = typeof header === 'string' && /^[\w.-]{1,128}$/.test(header) ? header : randomUUID();
+		res.setHeader('X-Request-Id', requestId);
+		withLogContext({ requestId }, next);
+	});
+
+	// Answer a request that failed authentication
+	const refuse = (res: Response, status: 400 | 401, error: string) => {
+		if (status === 401) {
+			res.setHeader('WWW-Authenticate', 'Bearer realm="mcp"');
 		}
-		if (req.query['config.repoUrl']) {
-			config.CODEGPT_REPO_URL = req.query['config.repoUrl'] as string;
+		res.status(status).json({ error });
+	};
+
+	// The session a request names, if it belongs to the same caller
+	const ownSession = (sessionId: string | undefined, principal: Principal) => {
+		const session = sessionId ? sessions.get(sessionId) : undefined;
+		return session?.principalId === principal.id ? session : undefined;
+	};
+
+	// Handle one request to the MCP endpoint
+	const handleMcpRequest = async (req: Request, res: Response, sessionId: string | undefined) => {
+		if (shuttingDown) {
+			res.setHeader('Connection', 'close');
+			res.status(503).json({ error: 'Server is shutting down' });
+			return;
 		}
 
-		// Validate API key is configured
-		if (!config.CODEGPT_API_KEY) {
-			res.status(400).json({
-				error: 'API key required. Pass config.apiKey as query parameter or set CODEGPT_API_KEY env var.',
-			});
+		const { principal, status, error } = authenticate(req, authOptions);
+		if (!principal) {
+			refuse(res, status, error);
 			return;
 		}
 
-		const sessionId = req.headers['mcp-session-id'] as string | undefined;
+		const session = ownSession(sessionId, principal);
+		if (session) {
+			sessions.track(session, req, res);
+		}
 
 		if (req.method === 'GET') {
 			// SSE connection for server-sent events
-			if (sessionId && transports.has(sessionId)) {
-				const transport = transports.get(sessionId)!;
-				await transport.handleRequest(req, res);
+			if (session) {
+				await session.transport.handleRequest(req, res);
 			} else {
 				res.status(400).json({ error: 'Invalid or missing session ID' });
 			}
@@ -687,64 +692,84 @@ async function startHttpServer(): Promise<void> {
 
 		if (req.method === 'POST') {
 			// Handle JSON-RPC requests
-			if (sessionId && transports.has(sessionId)) {
+			if (session) {
 				// Existing session
-				const transport = transports.get(sessionId)!;
-				await transport.handleRequest(req, res);
+				await session.transport.handleRequest(req, res, req.body);
+			} else if (sessionId) {
+				// Unknown, expired or someone else's session
+				res.status(400).json({ error: 'Invalid or missing session ID' });
+			} else if (!sessions.reserve()) {
+				res.setHeader('Retry-After', '60');
+				res.status(503).json({
+					error: `Too many active sessions (limit ${sessions.options.maxSessions}). Close an existing session or try again later.`,
+				});
 			} else {
-				// New session - create transport and server
-				const transport = new StreamableHTTPServerTransport({
-					sessionIdGenerator: () => randomUUID(),
-					onsessioninitialized: (newSessionId) => {
-						transports.set(newSessionId, transport);
-						console.error(`New MCP session initialized: ${newSessionId}`);
+				// New session - create transport and server, in the slot just reserved
+				let initialized = false;
+				// What to close if initialization fails: the transport, then the server connected to it
+				let opened: { close(): Promise<void> } | undefined;
+				try {
+					// Build this session's config from the caller's credentials, the
+					// query parameters and the server defaults. It is captured by the
+					// session's tools and never shared.
+					const sessionConfig = createSessionConfig({
+						...defaults,
+						CODEGPT_API_KEY: principal.apiKey || serverConfig.CODEGPT_API_KEY,
+						CODEGPT_ORG_ID: principal.orgId || serverConfig.CODEGPT_ORG_ID,
+						CODEGPT_GRAPH_ID: queryParam(req, 'config.graphId') || serverConfig.CODEGPT_GRAPH_ID,
+						CODEGPT_REPO_URL: queryParam(req, 'config.repoUrl') || serverConfig.CODEGPT_REPO_URL,
+					});
+
+					// Validate API key is configured
+					if (!sessionConfig.CODEGPT_API_KEY) {
+						res.status(400).json({
+							error: 'API key required. Map one to your server token in MCP_AUTH_TOKENS or set the server key with --api-key or CODEGPT_API_KEY.',
+						});
+						return;
 					}
-				});
 
-				// Create MCP server using factory function
-				const mcpServer = new McpServer({
-					name: "CodeGPT Deep Graph MCP",
-					version: "1.2.0",
-					config: { timeout: 120000 },
-					capabilities: { tools: {} },
-				});
+					const transport = new StreamableHTTPServerTransport({
+						sessionIdGenerator: () => randomUUID(),
+						onsessioninitialized: (newSessionId) => {
+							initialized = true;
+							// From here the initializing request counts against its session, for drain on shutdown
+							sessions.track(sessions.add(newSessionId, transport, principal.id), req, res);
+							logger.info('MCP session initialized', { sessionId: newSessionId });
+						}
+					});
+					opened = transport;
 
-				let repository = '';
-				try {
-					if (config.CODEGPT_REPO_URL && !config.IS_MULTI_REPO) {
-						const { repoOrg, repoName } = extractRepoInfo(config.CODEGPT_REPO_URL);
-						repository = `${repoOrg}/${repoName}`;
-					}
-				} catch (error: any) {
-					console.error(error.message);
-				}
+					const mcpServer = createMcpServer(sessionConfig);
 
-				registerTools(mcpServer, repository);
+					// Handle session close
+					transport.onclose = () => {
+						const sid = transport.sessionId;
+						if (sid && sessions.remove(sid)) {
+							logger.info('MCP session closed', { sessionId: sid });
+						}
+					};
 
-				// Handle session close
-				transport.onclose = () => {
-					const sid = Array.from(transports.entries())
-						.find(([_, t]) => t === transport)?.[0];
-					if (sid) {
-						transports.delete(sid);
-						console.error(`MCP session closed: ${sid}`);
+					// Connect server to transport
+					await mcpServer.connect(transport);
+					opened = mcpServer;
+					await transport.handleRequest(req, res, req.body);
+				} finally {
+					// A session that initialized took the slot over; otherwise give it back
+					if (!initialized) {
+						sessions.release();
+						await opened?.close().catch(error => logger.warn('Error closing uninitialized MCP session', { error }));
 					}
-				};
-
-				// Connect server to transport
-				await mcpServer.connect(transport);
-				await transport.handleRequest(req, res);
+				}
 			}
 			return;
 		}
 
 		if (req.method === 'DELETE') {
 			// Close session
-			if (sessionId && transports.has(sessionId)) {
-				const transport = transports.get(sessionId)!;
-				await transport.handleRequest(req, res);
-				transports.delete(sessionId);
-				console.error(`MCP session deleted: ${sessionId}`);
+			if (session && sessionId) {
+				await session.transport.handleRequest(req, res);
+				sessions.remove(sessionId);
+				logger.info('MCP session deleted', { sessionId });
 			} else {
 				res.status(400).json({ error: 'Invalid or missing session ID' });
 			}
@@ -752,67 +777,131 @@ async function startHttpServer(): Promise<void> {
 		}
 
 		res.status(405).json({ error: 'Method not allowed' });
+	};
+
+	// MCP endpoint - handles all MCP protocol communication
+	app.all('/mcp', async (req: Request, res: Response) => {
+		const sessionId = req.headers['mcp-session-id'] as string | undefined;
+		await withLogContext({ sessionId }, () => handleMcpRequest(req, res, sessionId));
+	});
+
+	// Prometheus metrics, behind the same authentication as the MCP endpoint unless made public
+	app.get('/metrics', (req: Request, res: Response) => {
+		if (!authOptions.publicMetrics) {
+			const { principal, status, error } = authenticate(req, authOptions);
+			if (!principal) {
+				refuse(res, status, error);
+				return;
+			}
+		}
+		res.type('text/plain; version=0.0.4').send(renderMetrics());
 	});
 
-	// Health check endpoint
-	app.get('/health', (_req: Request, res: Response) => {
-		res.json({
-			status: 'healthy',
+	// Readiness of the CodeGPT API, pinged at most every HEALTH_CHECK_INTERVAL_MS
+	let lastPing: { at: number; result: Promise<PingResult> } | undefined;
+	const checkApi = (): Promise<PingResult> => {
+		if (!lastPing || Date.now() - lastPing.at > HEALTH_CHECK_INTERVAL_MS) {
+			lastPing = { at: Date.now(), result: pingCodeGPTApi(serverConfig.CODEGPT_API_BASE, HEALTH_CHECK_TIMEOUT_MS) };
+		}
+		return lastPing.result;
+	};
+
+	// Health check endpoint, ready once the CodeGPT API answers (not needed for a local graph)
+	app.get('/health', async (_req: Request, res: Response) => {
+		const codegptApi = serverConfig.LOCAL_PATH ? undefined : await checkApi();
+		const ready = !shuttingDown && (codegptApi?.ok ?? true);
+		res.status(ready ? 200 : 503).json({
+			status: shuttingDown ? 'shutting down' : ready ? 'healthy' : 'unhealthy',
 			server: 'CodeGPT Deep Graph MCP',
-			version: '1.2.0',
-			transport: 'http'
+			version: VERSION,
+			transport: 'http',
+			sessions: sessions.size,
+			...(codegptApi ? { checks: { codegptApi } } : null),
 		});
 	});
 
 	// Start listening
-	app.listen(PORT, () => {
-		console.error(`CodeGPT Deep Graph MCP Server running on HTTP port ${PORT}`);
-		console.error(`MCP endpoint: http://localhost:${PORT}/mcp`);
-		console.error(`Health check: http://localhost:${PORT}/health`);
+	const httpServer = app.listen(port, () => {
+		logger.info('CodeGPT Deep Graph MCP Server running on HTTP', {
+			port,
+			endpoint: `http://localhost:${port}/mcp`,
+			health: `http://localhost:${port}/health`,
+			metrics: `http://localhost:${port}/metrics`,
+		});
 	});
+
+	// Graceful shutdown: refuse new work, let running tool calls finish, then close the sessions
+	const shutdown = async (signal: NodeJS.Signals) => {
+		if (shuttingDown) return;
+		shuttingDown = true;
+		logger.info('Shutting down, draining MCP sessions', { signal, sessions: sessions.size });
+
+		httpServer.close();
+		const abandoned = await sessions.drain();
+		if (abandoned) {
+			logger.warn('Shutdown timeout reached with requests still running', { requests: abandoned });
+		}
+		await sessions.closeAll();
+		httpServer.closeAllConnections();
+		logger.info('CodeGPT Deep Graph MCP Server stopped');
+		process.exit(0);
+	};
+	process.once('SIGTERM', shutdown);
+	process.once('SIGINT', shutdown);
 }
 
 // ============================================================================
-// STDIO Server (default when PORT is not set)
+// STDIO Server (default when no port is set)
 // ============================================================================
 
-async function startStdioServer(): Promise<void> {
-	console.error("=== DEBUG INFO ===");
-	console.error("CODEGPT_API_KEY:", config.CODEGPT_API_KEY ? "SET" : "NOT SET");
-	console.error("CODEGPT_ORG_ID:", config.CODEGPT_ORG_ID ? "SET" : "NOT SET");
-	console.error("CODEGPT_GRAPH_ID:", config.CODEGPT_GRAPH_ID ? "SET" : "NOT SET");
-	console.error("CODEGPT_REPO_URL:", config.CODEGPT_REPO_URL ? "SET" : "NOT SET");
-	console.error("IS_MULTI_REPO:", config.IS_MULTI_REPO ? "SET" : "NOT SET");
-	console.error("REPO_LIST:", config.REPO_LIST ? "SET" : "NOT");
-	console.error("==================");
-
-	if (!config.CODEGPT_API_KEY && !config.CODEGPT_REPO_URL && !config.IS_MULTI_REPO) {
-		throw new Error("CODEGPT_API_KEY is not set. Set it via environment variable or pass as CLI argument.");
-	}
-
-	// Use the factory function but get McpServer for STDIO
-	const server = new McpServer({
-		name: "CodeGPT Deep Graph MCP",
-		version: "1.2.0",
-		config: { timeout: 120000 },
-		capabilities: { tools: {} },
+async function startStdioServer(config: SessionConfig): Promise<void> {
+	logger.debug("STDIO configuration", {
+		apiKey: !!config.CODEGPT_API_KEY,
+		orgId: !!config.CODEGPT_ORG_ID,
+		graphId: !!config.CODEGPT_GRAPH_ID,
+		repoUrl: !!config.CODEGPT_REPO_URL,
+		multiRepo: config.IS_MULTI_REPO,
+		repositories: config.REPO_LIST.length,
+		localPath: config.LOCAL_PATH || undefined,
 	});
 
-	let repository = '';
-	try {
-		if (config.CODEGPT_REPO_URL && !config.IS_MULTI_REPO) {
-			const { repoOrg, repoName } = extractRepoInfo(config.CODEGPT_REPO_URL);
-			repository = `${repoOrg}/${repoName}`;
-		}
-	} catch (error: any) {
-		console.error(error.message);
+	if (!config.CODEGPT_API_KEY && !config.CODEGPT_REPO_URL && !config.IS_MULTI_REPO && !config.LOCAL_PATH) {
+		throw new CliError("No API key, repository or local path configured. Pass --api-key, --repo or --local (see --help).");
 	}
 
-	registerTools(server, repository);
+	const server = createMcpServer(config);
 
 	const transport = new StdioServerTransport();
 	await server.connect(transport);
-	console.error("CodeGPT Deep Graph MCP Server running on stdio");
+	logger.info("CodeGPT Deep Graph MCP Server running on stdio");
+}
+
+// ============================================================================
+// Architecture Rule Check (--check-rules)
+// ============================================================================
+
+/**
+ * Check the local checkout against its rules file and print the report.
+ * Resolves to the number of violations, so CI can fail the build on any.
+ */
+async function runRuleCheck(settings: CliSettings): Promise<number> {
+	if (!settings.local) {
+		throw new CliError("--check-rules needs the checkout to check. Pass --local <path>.");
+	}
+	const rulesFile = settings.rules ?? findRulesFile(settings.local);
+	if (!rulesFile) {
+		throw new CliError(`No rules file found. Pass --rules <file> or add ${RULES_FILES.join(", ")} to ${settings.local}.`);
+	}
+
+	let rules: ArchitectureRule[];
+	try {
+		rules = await loadRulesFile(rulesFile);
+	} catch (error) {
+		throw new CliError(error instanceof Error ? error.message : String(error));
+	}
+	const violations = checkRules(await getLocalBackend(settings.local).fullGraph(), rules);
+	process.stdout.write(`${formatRuleReport(rules, violations)}\n`);
+	return violations.length;
 }
 
 // ============================================================================
@@ -825,18 +914,46 @@ const isMainModule = import.meta.url === `file://${process.argv[1]}`;
 if (isMainModule) {
 	(async () => {
 		try {
-			if (IS_HTTP_MODE) {
-				console.error(`Starting in HTTP mode (PORT=${PORT})...`);
-				await startHttpServer();
+			const { command, settings, configFile } = parseCli(process.argv.slice(2));
+
+			if (command === "help") {
+				process.stdout.write(USAGE);
+				return;
+			}
+			if (command === "version") {
+				process.stdout.write(`${VERSION}\n`);
+				return;
+			}
+			if (command === "clear-cache") {
+				const cleared = await getResponseCache().clear();
+				logger.info(`Cleared ${cleared} cached response(s)`);
+				return;
+			}
+
+			if (configFile) {
+				logger.info("Loaded config file", { path: configFile });
+			}
+
+			if (command === "check-rules") {
+				if (await runRuleCheck(settings)) {
+					process.exitCode = 1;
+				}
+				return;
+			}
+
+			if (settings.port) {
+				logger.info("Starting in HTTP mode", { port: settings.port });
+				await startHttpServer(settings.port, sessionOverrides(settings));
 			} else {
-				console.error("Starting in STDIO mode...");
-				await startStdioServer();
+				logger.info("Starting in STDIO mode");
+				await startStdioServer(stdioSessionConfig(settings));
 			}
 		} catch (error) {
-			console.error("Error in main():", error);
-			if (error instanceof Error) {
-				console.error("Error stack:", error.stack);
+			if (error instanceof CliError) {
+				process.stderr.write(`mcp-code-graph: ${error.message}\nRun 'mcp-code-graph --help' for usage.\n`);
+				process.exit(2);
 			}
+			logger.error("Error in main()", { error });
 			process.exit(1);
 		}
 	})();
@@ -0,0 +1,68 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+export type LogLevel = "debug" | "info" | "warn" | "error";
+
+/**
+ * Fields attached to every log line written while handling a request
+ */
+export type LogContext = {
+	/** HTTP request ID, echoed in the X-Request-Id response header */
+	requestId?: string;
+	sessionId?: string;
+	/** JSON-RPC ID of the MCP request */
+	rpcId?: string | number;
+	tool?: string;
+};
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+const context = new AsyncLocalStorage<LogContext>();
+
+// Read on every call so a LOG_LEVEL loaded by dotenv after import is honoured
+const threshold = (): number => LEVELS[process.env.LOG_LEVEL?.toLowerCase() as LogLevel] ?? LEVELS.info;
+
+/**
+ * Run `fn` with extra context fields, on top of any context already active
+ */
+export const withLogContext = <T>(fields: LogContext, fn: () => T): T =>
+	context.run({ ...context.getStore(), ...fields }, fn);
+
+const serializeError = (error: unknown): unknown => {
+	if (!(error instanceof Error)) return error;
+	const { kind, status } = error as Error & { kind?: string; status?: number };
+	return {
+		name: error.name,
+		message: error.message,
+		...(kind ? { kind } : null),
+		...(status ? { status } : null),
+		...(threshold() <= LEVELS.debug ? { stack: error.stack } : null),
+	};
+};
+
+const write = (level: LogLevel, message: string, fields: Record<string, unknown> = {}): void => {
+	if (LEVELS[level] < threshold()) return;
+	const entry: Record<string, unknown> = {
+		time: new Date().toISOString(),
+		level,
+		msg: message,
+		...context.getStore(),
+	};
+	for (const [key, value] of Object.entries(fields)) {
+		if (value !== undefined) {
+			entry[key] = serializeError(value);
+		}
+	}
+	// stdout carries the STDIO transport, so logs always go to stderr
+	process.stderr.write(`${JSON.stringify(entry)}\n`);
+};
+
+/**
+ * JSON line logger. The level comes from LOG_LEVEL (debug, info, warn or
+ * error; default info).
+ */
+export const logger = {
+	debug: (message: string, fields?: Record<string, unknown>) => write("debug", message, fields),
+	info: (message: string, fields?: Record<string, unknown>) => write("info", message, fields),
+	warn: (message: string, fields?: Record<string, unknown>) => write("warn", message, fields),
+	error: (message: string, fields?: Record<string, unknown>) => write("error", message, fields),
+};
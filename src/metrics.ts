@@ -0,0 +1,155 @@
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { logger, withLogContext } from "./logger.js";
+
+// ============================================================================
+// Registry
+// ============================================================================
+
+type Labels = Record<string, string>;
+
+const escapeLabel = (value: string): string =>
+	value.replace(/\\/g, "\\\\").replace(/\n/g, "\\n").replace(/"/g, '\\"');
+
+const formatLabels = (labels: Labels): string => {
+	const entries = Object.entries(labels);
+	return entries.length ? `{${entries.map(([name, value]) => `${name}="${escapeLabel(value)}"`).join(",")}}` : "";
+};
+
+const labelKey = (labels: Labels): string => JSON.stringify(Object.entries(labels));
+
+interface Metric {
+	render(): string[];
+}
+
+class Counter implements Metric {
+	private readonly values = new Map<string, { labels: Labels; value: number }>();
+
+	constructor(readonly name: string, readonly help: string) {}
+
+	inc(labels: Labels, value = 1): void {
+		const key = labelKey(labels);
+		const series = this.values.get(key) ?? { labels, value: 0 };
+		series.value += value;
+		this.values.set(key, series);
+	}
+
+	render(): string[] {
+		return [
+			`# HELP ${this.name} ${this.help}`,
+			`# TYPE ${this.name} counter`,
+			...[...this.values.values()].map(({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`),
+		];
+	}
+}
+
+class Histogram implements Metric {
+	private readonly values = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+	constructor(readonly name: string, readonly help: string, private readonly buckets: number[]) {}
+
+	observe(labels: Labels, value: number): void {
+		const key = labelKey(labels);
+		const series = this.values.get(key) ?? { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+		this.buckets.forEach((bound, index) => value <= bound && series.counts[index]++);
+		series.sum += value;
+		series.count++;
+		this.values.set(key, series);
+	}
+
+	render(): string[] {
+		const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+		for (const { labels, counts, sum, count } of this.values.values()) {
+			this.buckets.forEach((bound, index) =>
+				lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: String(bound) })} ${counts[index]}`)
+			);
+			lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`);
+			lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+			lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+		}
+		return lines;
+	}
+}
+
+/**
+ * A value read when metrics are scraped, e.g. the number of open sessions
+ */
+class Collected implements Metric {
+	constructor(
+		readonly name: string,
+		readonly help: string,
+		private readonly type: "counter" | "gauge",
+		private readonly collect: () => number,
+	) {}
+
+	render(): string[] {
+		return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`, `${this.name} ${this.collect()}`];
+	}
+}
+
+const registry = new Map<string, Metric>();
+
+const register = <T extends Metric & { name: string }>(metric: T): T => {
+	registry.set(metric.name, metric);
+	return metric;
+};
+
+// ============================================================================
+// Server Metrics
+// ============================================================================
+
+const toolCalls = register(new Counter("codegraph_tool_calls_total", "Tool calls by tool and outcome (ok or error)"));
+
+const toolDuration = register(new Histogram(
+	"codegraph_tool_duration_seconds",
+	"Tool call latency in seconds",
+	[0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60],
+));
+
+const upstreamResponses = register(new Counter(
+	"codegraph_upstream_responses_total",
+	"CodeGPT API responses by endpoint and HTTP status, or the failure kind when no response arrived",
+));
+
+/**
+ * Count one attempt against the CodeGPT API
+ */
+export const recordUpstreamResponse = (endpoint: string, status: number | string): void =>
+	upstreamResponses.inc({ endpoint, status: String(status) });
+
+/**
+ * Expose a value read at scrape time, replacing any earlier metric of the same name
+ */
+export const registerCollected = (name: string, help: string, type: "counter" | "gauge", collect: () => number): void => {
+	register(new Collected(name, help, type, collect));
+};
+
+/**
+ * Every metric in the Prometheus text exposition format
+ */
+export const renderMetrics = (): string =>
+	`${[...registry.values()].flatMap(metric => metric.render()).join("\n")}\n`;
+
+/**
+ * Wrap a tool callback to record its call count and latency, and to tag log
+ * lines written during a call with the tool, the JSON-RPC request and the
+ * session
+ */
+export const instrumentTool = <Args, Extra extends { sessionId?: string; requestId: string | number }>(
+	name: string,
+	callback: (args: Args, extra: Extra) => Promise<CallToolResult>,
+) => async (args: Args, extra: Extra): Promise<CallToolResult> => {
+	const started = performance.now();
+	let outcome = "error";
+	return withLogContext({ sessionId: extra.sessionId, rpcId: extra.requestId, tool: name }, async () => {
+		try {
+			const result = await callback(args, extra);
+			outcome = result.isError ? "error" : "ok";
+			return result;
+		} finally {
+			const seconds = (performance.now() - started) / 1000;
+			toolCalls.inc({ tool: name, outcome });
+			toolDuration.observe({ tool: name }, seconds);
+			logger.debug("Tool call finished", { outcome, durationMs: Math.round(seconds * 1000) });
+		}
+	});
+};
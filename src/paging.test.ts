@@ -0,0 +1,106 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { shapeResult } from "./paging.js";
+
+const nodes = Array.from({ length: 5 }, (_, index) => ({
+	id: `src/n.ts::n${index}`,
+	name: `n${index}`,
+	path: "src/n.ts",
+	startLine: index * 10 + 1,
+	endLine: index * 10 + 5,
+	code: `function n${index}() {}`,
+}));
+
+const result = (structuredContent: Record<string, unknown>): CallToolResult => ({
+	content: [{ type: "text", text: "full result" }],
+	structuredContent,
+});
+
+const nodeList = { fields: ["nodes"] };
+
+const pageOf = (shaped: CallToolResult) => shaped.structuredContent?.page as { offset: number; returned: number; total: number; nextCursor?: string; truncated: boolean };
+
+const textOf = (shaped: CallToolResult): string => shaped.content.map(part => part.type === "text" ? part.text : "").join("");
+
+describe("shapeResult", () => {
+	it("pages through a list with cursors until the last item", () => {
+		const seen: unknown[] = [];
+		let cursor: string | undefined;
+		let pages = 0;
+		do {
+			const shaped = shapeResult(result({ nodes }), { maxItems: 2, cursor }, nodeList);
+			seen.push(...shaped.structuredContent?.nodes as unknown[]);
+			cursor = pageOf(shaped).nextCursor;
+			pages++;
+		} while (cursor);
+
+		assert.equal(pages, 3);
+		assert.deepEqual(seen, nodes);
+	});
+
+	it("reports where each page starts and what is left", () => {
+		const first = shapeResult(result({ nodes }), { maxItems: 3 }, nodeList);
+		assert.deepEqual({ ...pageOf(first), nextCursor: undefined }, { field: "nodes", offset: 0, returned: 3, total: 5, nextCursor: undefined, truncated: false });
+		assert.match(textOf(first), /^Showing nodes 1-3 of 5:/);
+		assert.match(textOf(first), /2 more omitted\. Call again with cursor "[\w-]+" to continue\.$/);
+
+		const last = shapeResult(result({ nodes }), { maxItems: 3, cursor: pageOf(first).nextCursor }, nodeList);
+		assert.deepEqual(pageOf(last), { field: "nodes", offset: 3, returned: 2, total: 5, truncated: false });
+	});
+
+	it("refuses cursors it did not issue", () => {
+		for (const cursor of ["not a cursor", Buffer.from(JSON.stringify({ offset: -1 })).toString("base64url")]) {
+			assert.throws(() => shapeResult(result({ nodes }), { cursor }, nodeList), /Invalid cursor/);
+		}
+	});
+
+	it("fills a page up to maxTokens and cuts the code of a single item that does not fit", () => {
+		const fitting = shapeResult(result({ nodes }), { maxTokens: 30 }, nodeList);
+		assert.ok(pageOf(fitting).returned >= 1 && pageOf(fitting).returned < nodes.length);
+		assert.equal(pageOf(fitting).truncated, false);
+
+		const big = [{ ...nodes[0], code: "x".repeat(400) }];
+		const cut = shapeResult(result({ nodes: big }), { maxTokens: 20 }, nodeList);
+		const [item] = cut.structuredContent?.nodes as { code: string }[];
+		assert.equal(pageOf(cut).truncated, true);
+		assert.match(item.code, /^x+\n… \(truncated\)$/);
+		assert.ok(item.code.length < 400);
+	});
+
+	it("drops code and line ranges in summary mode", () => {
+		const shaped = shapeResult(result({ nodes }), { summary: true, maxItems: 1 }, nodeList);
+		assert.deepEqual(shaped.structuredContent?.nodes, [{ id: nodes[0].id, name: "n0", path: "src/n.ts" }]);
+		assert.match(textOf(shaped), /- n0 \(src\/n\.ts\)/);
+	});
+
+	it("moves each edge with the earliest of its nodes", () => {
+		const edges = [
+			{ source: nodes[3].id, target: nodes[1].id, relation: "calls" },
+			{ source: nodes[4].id, target: nodes[3].id, relation: "calls" },
+			{ source: "elsewhere::x", target: "elsewhere::y", relation: "calls" },
+		];
+		const first = shapeResult(result({ nodes, edges }), { maxItems: 2 }, nodeList);
+		const second = shapeResult(result({ nodes, edges }), { maxItems: 2, cursor: pageOf(first).nextCursor }, nodeList);
+
+		assert.deepEqual(first.structuredContent?.edges, [edges[2], edges[0]]);
+		assert.deepEqual(second.structuredContent?.edges, [edges[1]]);
+	});
+
+	it("renders items and notes the way the tool asks", () => {
+		const shaped = shapeResult(result({ files: ["a.ts", "b.ts"], failed: ["repo"] }), { maxItems: 1 }, {
+			fields: ["files"],
+			renderItem: (file: string) => `* ${file}`,
+			notes: (content: { failed: string[] }) => [`Failed: ${content.failed.join(", ")}`],
+		});
+
+		assert.match(textOf(shaped), /^Showing files 1-1 of 2:\n\* a\.ts\n\nFailed: repo\n/);
+	});
+
+	it("returns errors and results without a list untouched", () => {
+		const error: CallToolResult = { isError: true, content: [{ type: "text", text: "boom" }] };
+		const empty = result({ nodes: [] });
+		assert.equal(shapeResult(error, { maxItems: 1 }, nodeList), error);
+		assert.equal(shapeResult(empty, { maxItems: 1 }, nodeList), empty);
+	});
+});
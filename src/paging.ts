@@ -0,0 +1,236 @@
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+
+/**
+ * Output shaping shared by every tool returning lists: a token or item
+ * budget, cursors to page through the rest, and a summary mode. Tools build
+ * their complete result as usual; the page is cut from its structured
+ * content and the text is rendered from that page, item by item as the tool
+ * renders them.
+ */
+
+// Rough size of a token in characters, enough to keep results under a budget
+const CHARS_PER_TOKEN = 4;
+
+export const pagingShape = {
+	maxTokens: z
+		.number()
+		.int()
+		.min(1)
+		.optional()
+		.describe("Approximate size limit of the result in tokens. Items that do not fit are left for the next page"),
+	maxItems: z
+		.number()
+		.int()
+		.min(1)
+		.optional()
+		.describe("Maximum number of items (nodes, files, results...) returned. The rest are left for the next page"),
+	cursor: z
+		.string()
+		.optional()
+		.describe("Cursor from the previous page, to continue where it stopped. Repeat the other arguments unchanged"),
+	summary: z
+		.boolean()
+		.optional()
+		.describe("Return only the names and paths of nodes, without code or line ranges"),
+};
+
+export const pageSchema = z.object({
+	field: z.string().describe("Structured field that was paged"),
+	offset: z.number().int().describe("Index of the first item of this page"),
+	returned: z.number().int().describe("Items in this page"),
+	total: z.number().int().describe("Items in the whole result"),
+	nextCursor: z.string().optional().describe("Cursor of the next page, absent on the last page"),
+	truncated: z.boolean().describe("Whether the code of the only item returned was cut to fit maxTokens"),
+});
+
+export type PagingOptions = {
+	maxTokens?: number;
+	maxItems?: number;
+	cursor?: string;
+	summary?: boolean;
+};
+
+/**
+ * How a tool's list is found and shown. `T` is an item of the list and `C`
+ * the whole structured content, as the tool returns them.
+ */
+export type ListRendering<T, C> = {
+	/** Structured fields that may hold the list; the first one present is paged */
+	fields: readonly string[];
+	/** One item as the tool's own text shows it; nodes and other items get a generic line otherwise */
+	renderItem?: (item: T, summary: boolean) => string;
+	/** Lines about the whole result repeated under every page, e.g. repositories that failed */
+	notes?: (content: C) => string[];
+};
+
+type Item = Record<string, unknown>;
+
+const isItem = (value: unknown): value is Item => !!value && typeof value === "object" && !Array.isArray(value);
+
+const text = (value: unknown): string | undefined => typeof value === "string" ? value : undefined;
+
+// ============================================================================
+// Cursors
+// ============================================================================
+
+const encodeCursor = (offset: number): string => Buffer.from(JSON.stringify({ offset })).toString("base64url");
+
+const decodeCursor = (cursor: string): number => {
+	try {
+		const { offset } = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+		if (Number.isInteger(offset) && offset >= 0) return offset;
+	} catch {
+		// Reported below
+	}
+	throw new Error(`Invalid cursor '${cursor}'. Use the nextCursor of the previous page`);
+};
+
+// ============================================================================
+// Items
+// ============================================================================
+
+const tokens = (value: string): number => Math.ceil(value.length / CHARS_PER_TOKEN);
+
+// Summary mode: names and paths only, keeping whatever else a schema requires
+const summarize = (value: unknown): unknown => {
+	if (Array.isArray(value)) return value.map(summarize);
+	if (!isItem(value)) return value;
+	const { code: _code, startLine: _startLine, endLine: _endLine, score: _score, ...rest } = value;
+	return Object.fromEntries(Object.entries(rest).map(([key, entry]) => [key, summarize(entry)]));
+};
+
+const codeLength = (value: unknown): number => {
+	if (Array.isArray(value)) return value.reduce((sum: number, entry) => sum + codeLength(entry), 0);
+	if (!isItem(value)) return 0;
+	return Object.entries(value).reduce((sum, [key, entry]) =>
+		sum + (key === "code" && typeof entry === "string" ? entry.length : codeLength(entry)), 0);
+};
+
+/**
+ * Cut the `code` strings of an item so that together they stay within
+ * `budget.left` characters, spent in order. Sharing one budget between calls
+ * spends it across several items.
+ */
+export const cutCode = (value: unknown, budget: { left: number }): unknown => {
+	if (Array.isArray(value)) return value.map(entry => cutCode(entry, budget));
+	if (!isItem(value)) return value;
+	return Object.fromEntries(Object.entries(value).map(([key, entry]) => {
+		if (key !== "code" || typeof entry !== "string") return [key, cutCode(entry, budget)];
+		const kept = entry.slice(0, Math.max(budget.left, 0));
+		budget.left -= kept.length;
+		return [key, kept.length < entry.length ? `${kept}\n… (truncated)` : entry];
+	}));
+};
+
+/**
+ * A graph node as one list entry: ID, kind, lines and repository, then its
+ * code unless in summary mode
+ */
+export const renderNode = (node: Item, summary: boolean): string => {
+	const name = text(node.name) ?? text(node.id) ?? "";
+	if (summary) return `- ${name} (${text(node.path) || "unknown path"})`;
+	const lines = typeof node.startLine === "number" ? `lines ${node.startLine}-${node.endLine}` : "";
+	const kind = [text(node.kind), lines].filter(Boolean).join(", ");
+	const details = [
+		kind ? `[${kind}]` : "",
+		text(node.repository) ? `[${node.repository}]` : "",
+		typeof node.score === "number" ? `(score ${node.score})` : "",
+	].filter(Boolean).join(" ");
+	const code = text(node.code);
+	return [
+		`- ${text(node.id) ?? name}${details ? ` ${details}` : ""}`,
+		...(code ? ["```", code, "```"] : []),
+	].join("\n");
+};
+
+// Items of tools without their own rendering: nodes, or their JSON
+const renderItem = (item: unknown, summary: boolean): string => {
+	if (isItem(item) && text(item.id) !== undefined && text(item.name) !== undefined) return renderNode(item, summary);
+	return `- ${typeof item === "string" ? item : JSON.stringify(item)}`;
+};
+
+const renderEdge = (edge: Item): string => `  ${edge.source} -[${edge.relation}]-> ${edge.target}`;
+
+// ============================================================================
+// Pages
+// ============================================================================
+
+/**
+ * Cut one page out of a tool result. Results without a list, errors and
+ * empty lists are returned as they are.
+ */
+export const shapeResult = <T, C>(
+	result: CallToolResult,
+	{ maxTokens, maxItems, cursor, summary = false }: PagingOptions,
+	rendering: ListRendering<T, C>,
+): CallToolResult => {
+	const content = result.structuredContent;
+	if (result.isError || !content) return result;
+	const field = rendering.fields.find(name => Array.isArray(content[name]));
+	const list = field ? content[field] as unknown[] : [];
+	if (!field || !list.length) return result;
+
+	// The structured content is the tool's own, validated against its output schema
+	const render = (item: unknown) => rendering.renderItem ? rendering.renderItem(item as T, summary) : renderItem(item, summary);
+	const notes = rendering.notes?.(content as C) ?? [];
+
+	const all: unknown[] = summary ? summarize(list) as unknown[] : list;
+	const offset = cursor ? decodeCursor(cursor) : 0;
+
+	// Edges travel with the earliest of their two nodes, or with the first page when neither is listed
+	const edges = field === "nodes" && Array.isArray(content.edges) ? content.edges.filter(isItem) : [];
+	const position = new Map(all.map((node, index) => [isItem(node) ? node.id : undefined, index]));
+	const edgesAt = new Map<number, Item[]>();
+	for (const edge of edges) {
+		const index = Math.min(position.get(edge.source) ?? Infinity, position.get(edge.target) ?? Infinity);
+		const at = index === Infinity ? 0 : index;
+		edgesAt.set(at, [...(edgesAt.get(at) ?? []), edge]);
+	}
+
+	const page: unknown[] = [];
+	const pageEdges: Item[] = [];
+	const rendered: string[] = [];
+	let used = 0;
+	let truncated = false;
+	for (let index = offset; index < all.length; index++) {
+		if (maxItems !== undefined && page.length >= maxItems) break;
+		const attached = edgesAt.get(index) ?? [];
+		let item = all[index];
+		let entry = [render(item), ...attached.map(renderEdge)].join("\n");
+		const cost = tokens(entry);
+		if (maxTokens !== undefined && used + cost > maxTokens) {
+			if (page.length) break;
+			// Nothing fits: return the first item with its code cut to the budget
+			item = cutCode(item, { left: maxTokens * CHARS_PER_TOKEN - (entry.length - codeLength(item)) });
+			entry = [render(item), ...attached.map(renderEdge)].join("\n");
+			truncated = true;
+		}
+		page.push(item);
+		pageEdges.push(...attached);
+		rendered.push(entry);
+		used += tokens(entry);
+		if (truncated) break;
+	}
+
+	const end = offset + page.length;
+	const nextCursor = end < all.length ? encodeCursor(end) : undefined;
+	const pageText = [
+		page.length ? `Showing ${field} ${offset + 1}-${end} of ${all.length}:` : `No ${field} left after item ${offset} of ${all.length}.`,
+		...rendered,
+		...(notes.length ? ["", ...notes] : []),
+		...(truncated ? ["", "The code above was cut to fit maxTokens; raise it to see all of it."] : []),
+		...(nextCursor ? ["", `${all.length - end} more omitted. Call again with cursor "${nextCursor}" to continue.`] : []),
+	].join("\n");
+
+	return {
+		...result,
+		content: [{ type: "text", text: pageText }],
+		structuredContent: {
+			...(summary ? summarize(content) as Item : content),
+			[field]: page,
+			...(field === "nodes" && Array.isArray(content.edges) ? { edges: pageEdges } : null),
+			page: { field, offset, returned: page.length, total: all.length, ...(nextCursor ? { nextCursor } : null), truncated },
+		},
+	};
+};
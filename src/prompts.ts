@@ -0,0 +1,142 @@
+import type { GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import type { ToolContext } from "./tools/context.js";
+
+const userPrompt = (text: string): GetPromptResult => ({
+	messages: [{ role: "user", content: { type: "text", text } }],
+});
+
+const numbered = (steps: string[]): string =>
+	steps.map((step, index) => `${index + 1}. ${step}`).join("\n");
+
+/**
+ * Register the graph-driven workflows as MCP prompts, so every host can offer
+ * them. The steps only mention tools the session actually has.
+ */
+export function registerPrompts({ server, config, backend, repository }: ToolContext): void {
+	const subject = repository ? `the repository ${repository}` : "the code graph";
+	const hasDocs = !!backend.docsSemanticSearch;
+
+	// How to address the graph, depending on how the session is configured
+	const preamble = [
+		`You are analysing ${subject} with the Deep Graph MCP tools.`,
+		...(config.IS_MULTI_REPO
+			? [`Several repositories are available (${config.REPO_LIST.join(", ")}); pass the one you mean as \`repository\`, or a list or '*' to nodes-semantic-search.`]
+			: []),
+		...(!config.CODEGPT_GRAPH_ID && !config.CODEGPT_REPO_URL && !config.IS_MULTI_REPO && !config.LOCAL_PATH
+			? ["Start with list-graphs and choose a graph with select-graph; the other tools then query it without a `graphId`."]
+			: []),
+		"Functionalities are identified by name ('ClassName.methodName' for methods) and file path; take both from earlier tool results rather than guessing.",
+	].join("\n");
+
+	const docsStep = hasDocs ? ["Use docs-semantic-search to find READMEs, ADRs and guides that explain the intended design."] : [];
+
+	server.prompt(
+		"analyze-architecture",
+		`Architectural overview of ${subject}: layers, main components and how they depend on each other`,
+		{
+			focus: z.string().optional().describe("Folder or area to concentrate on, e.g. 'src/api' (default: whole repository)"),
+		},
+		({ focus }) => userPrompt([
+			preamble,
+			"",
+			`Produce an architectural overview of ${focus ? `'${focus}' in ` : ""}${subject}.`,
+			"",
+			numbered([
+				`Call folder-tree-structure${focus ? ` with path '${focus}'` : ""} to map the modules and layers.`,
+				...docsStep,
+				"Use nodes-semantic-search for entry points (servers, CLIs, handlers) and core domain services.",
+				"For each main component, call find-direct-connections to see what it uses and what uses it; use traverse-graph for deeper chains.",
+				"Read the key functionalities with get-code and base every claim on what you inspected, citing node IDs.",
+				"Summarise layers, responsibilities, dependency directions and any coupling that crosses layers. Include a diagram from export-subgraph for the central component.",
+			]),
+		].join("\n"))
+	);
+
+	server.prompt(
+		"security-audit",
+		`Security review of ${subject}: entry points, authentication, input handling and secrets`,
+		{
+			scope: z.string().optional().describe("Folder or component to audit (default: whole repository)"),
+		},
+		({ scope }) => userPrompt([
+			preamble,
+			"",
+			`Audit ${scope ? `'${scope}' in ` : ""}${subject} for security weaknesses.`,
+			"",
+			numbered([
+				"Use nodes-semantic-search to locate request handlers, authentication and authorization checks, input parsing, database queries, file and shell access, cryptography and secret loading.",
+				"Read each candidate with get-code.",
+				"Use find-direct-connections and get-usage-dependency-links to check that every entry point goes through validation and authorization, and which callers reach dangerous sinks.",
+				...docsStep,
+				"Report each finding with its node ID, severity, the path from entry point to sink (find-path helps) and a concrete fix.",
+			]),
+		].join("\n"))
+	);
+
+	server.prompt(
+		"migration-planner",
+		`Plan migrating a component of ${subject} to another technology`,
+		{
+			component: z.string().describe("Component, module or functionality to migrate, e.g. 'UserRepository' or 'src/legacy/orm'"),
+			targetTechnology: z.string().describe("Technology to migrate to, e.g. 'Prisma', 'Vue.js', 'gRPC'"),
+		},
+		({ component, targetTechnology }) => userPrompt([
+			preamble,
+			"",
+			`Plan the migration of '${component}' in ${subject} to ${targetTechnology}.`,
+			"",
+			numbered([
+				`Find '${component}' with nodes-semantic-search (or folder-tree-structure if it is a folder) and read its code with get-code.`,
+				"Call get-usage-dependency-links to list everything that depends on it; these are the call sites the migration touches.",
+				"Call find-direct-connections on its main functionalities to list what it depends on.",
+				...docsStep,
+				`Map each public functionality to its ${targetTechnology} equivalent and flag behaviour with no direct equivalent.`,
+				"Propose an incremental plan (adapters, order of call sites, tests to add) with effort and risk per step.",
+			]),
+		].join("\n"))
+	);
+
+	server.prompt(
+		"performance-optimizer",
+		`Find performance improvements around a functionality of ${subject}`,
+		{
+			component: z.string().describe("Functionality or component to optimise, e.g. 'DatabaseService.getUserData'"),
+		},
+		({ component }) => userPrompt([
+			preamble,
+			"",
+			`Find performance improvements for '${component}' in ${subject}.`,
+			"",
+			numbered([
+				`Locate '${component}' (nodes-semantic-search if the exact name or path is unknown) and read it with get-code.`,
+				"Call traverse-graph with direction 'callees' to see what it does transitively, and read the expensive-looking callees (I/O, loops, serialization) with get-code.",
+				"Call get-usage-dependency-links to see how often and from where it is called (hot paths).",
+				"Look for repeated queries (N+1), missing caching or batching, blocking I/O, redundant work and algorithmic issues.",
+				"Rank suggestions by expected impact and effort, citing node IDs and code lines.",
+			]),
+		].join("\n"))
+	);
+
+	server.prompt(
+		"component-onboarding",
+		`Onboarding guide for a component or feature of ${subject}`,
+		{
+			component: z.string().describe("Component or feature to learn, e.g. 'authentication system' or 'OrderService'"),
+		},
+		({ component }) => userPrompt([
+			preamble,
+			"",
+			`Write an onboarding guide for '${component}' in ${subject}, for a developer new to it.`,
+			"",
+			numbered([
+				`Use nodes-semantic-search to find the functionalities that make up '${component}'.`,
+				...docsStep,
+				"Read the central ones with get-code and map their collaborators with find-direct-connections.",
+				"Use export-subgraph to include a diagram of the component.",
+				"Explain the purpose, main flow step by step, key types, extension points and pitfalls, linking each to its node ID and file.",
+				"Finish with a short reading order and suggested first tasks.",
+			]),
+		].join("\n"))
+	);
+}
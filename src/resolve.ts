@@ -0,0 +1,151 @@
+import type { GraphBackend, TextResult } from "./backends/types.js";
+import { CodeGPTApiError, GraphTarget, NodeQuery } from "./client.js";
+import type { GraphNode } from "./schemas.js";
+
+/**
+ * Resolution of functionality names the agent got slightly wrong. Lookups
+ * are tried as given first; only when that finds nothing are candidates
+ * gathered and matched exactly, then case-insensitively, then fuzzily.
+ */
+
+// Lowest fuzzy similarity (0-1) for a node to count as a candidate
+const FUZZY_THRESHOLD = 0.6;
+// A fuzzy match is only picked on its own when this close and this far ahead of the next one
+const FUZZY_PICK_THRESHOLD = 0.8;
+const FUZZY_MARGIN = 0.15;
+const MAX_CANDIDATES = 10;
+
+export type NodeResolution<T> =
+	/** The lookup answered, for the query as given or for `resolved` */
+	| { result: T; resolved?: NodeQuery }
+	/** Several nodes could be meant, best match first */
+	| { candidates: GraphNode[] };
+
+const levenshtein = (a: string, b: string): number => {
+	let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+	for (let i = 1; i <= a.length; i++) {
+		const current = [i];
+		for (let j = 1; j <= b.length; j++) {
+			current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+		}
+		previous = current;
+	}
+	return previous[b.length];
+};
+
+const lastSegment = (name: string): string => name.split(".").pop()!;
+
+/**
+ * How closely a node name matches the wanted one, from 0 to 1. A matching
+ * method name under another class ('authenticate' for
+ * 'UserService.authenticate') counts as a close match.
+ */
+const similarity = (wanted: string, name: string): number => {
+	const a = wanted.toLowerCase();
+	const b = name.toLowerCase();
+	if (a === b) return 1;
+	if (lastSegment(a) === lastSegment(b)) return 0.9;
+	return 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+};
+
+// "userService.authenticate" -> "user Service authenticate", for semantic search
+const searchText = (name: string): string =>
+	name.replace(/([a-z0-9])([A-Z])/g, "$1 $2").replace(/[._:#]+/g, " ");
+
+const candidatePool = async (backend: GraphBackend, target: GraphTarget, name: string, signal?: AbortSignal): Promise<GraphNode[]> => {
+	const { nodes } = backend.listNodes
+		? await backend.listNodes(target, signal)
+		: await backend.nodesSemanticSearch(target, searchText(name), signal);
+	return [...new Map(nodes.filter(node => node.kind !== "file").map(node => [node.id, node])).values()];
+};
+
+/**
+ * Narrow the pool down to the nodes the query could mean, best first: the
+ * exact name (in any file), else the name in any case, else fuzzy matches
+ * with their similarity as score
+ */
+const rankCandidates = (query: NodeQuery, pool: GraphNode[]): { candidates: GraphNode[]; fuzzy: boolean } => {
+	const byPath = (nodes: GraphNode[]) =>
+		query.path ? [...nodes.filter(node => node.path === query.path), ...nodes.filter(node => node.path !== query.path)] : nodes;
+
+	const exact = pool.filter(node => node.name === query.name);
+	if (exact.length) return { candidates: byPath(exact), fuzzy: false };
+
+	const lower = query.name.toLowerCase();
+	const caseInsensitive = pool.filter(node => node.name.toLowerCase() === lower);
+	if (caseInsensitive.length) return { candidates: byPath(caseInsensitive), fuzzy: false };
+
+	const candidates = pool
+		.map(node => ({ node, score: similarity(query.name, node.name) + (query.path && node.path === query.path ? 0.05 : 0) }))
+		.filter(({ score }) => score >= FUZZY_THRESHOLD)
+		.sort((a, b) => b.score - a.score || a.node.id.localeCompare(b.node.id))
+		.slice(0, MAX_CANDIDATES)
+		.map(({ node, score }) => ({ ...node, score: Math.round(Math.min(score, 1) * 100) / 100 }));
+	return { candidates, fuzzy: true };
+};
+
+// The node to retry with, when one candidate stands out
+const pick = ({ candidates, fuzzy }: { candidates: GraphNode[]; fuzzy: boolean }): GraphNode | undefined => {
+	const [best, next] = candidates;
+	if (!best || (!fuzzy && next)) return undefined;
+	if (fuzzy && best.score! < FUZZY_PICK_THRESHOLD) return undefined;
+	return !next || best.score! - next.score! >= FUZZY_MARGIN ? best : undefined;
+};
+
+const isMiss = (result: TextResult & { nodes: GraphNode[] }): boolean => !result.text && !result.nodes.length;
+
+/**
+ * Run `lookup` for the query; when it finds nothing, resolve the name
+ * against the graph and either retry with the single match or hand back the
+ * candidates. Failures other than a missing node are rethrown untouched.
+ */
+export const resolveNodeLookup = async <T extends TextResult & { nodes: GraphNode[] }>(
+	backend: GraphBackend,
+	target: GraphTarget,
+	query: NodeQuery,
+	lookup: (query: NodeQuery) => Promise<T>,
+	signal?: AbortSignal,
+): Promise<NodeResolution<T>> => {
+	let missed: T | undefined;
+	let notFound: unknown;
+	try {
+		missed = await lookup(query);
+		if (!isMiss(missed)) return { result: missed };
+	} catch (error) {
+		if (!(error instanceof CodeGPTApiError && error.kind === "not-found")) throw error;
+		notFound = error;
+	}
+
+	let ranked: ReturnType<typeof rankCandidates>;
+	try {
+		ranked = rankCandidates(query, await candidatePool(backend, target, query.name, signal));
+	} catch (error) {
+		// The graph itself is missing or unreadable: report the original failure
+		if (notFound) throw notFound;
+		throw error;
+	}
+
+	const match = pick(ranked);
+	if (match) {
+		const resolved = { name: match.name, path: match.path || undefined };
+		return { result: await lookup(resolved), resolved };
+	}
+	if (ranked.candidates.length) return { candidates: ranked.candidates };
+	if (notFound) throw notFound;
+	return { result: missed! };
+};
+
+/**
+ * Text shown instead of a result when several nodes could be meant
+ */
+export const describeCandidates = ({ name, path }: NodeQuery, candidates: GraphNode[]): string => [
+	`No functionality matches '${name}'${path ? ` in ${path}` : ""} exactly. Candidates, best match first:`,
+	...candidates.map((node, index) => `${index + 1}. ${node.name} (${node.path || "unknown path"})${node.kind ? ` [${node.kind}]` : ""}`),
+	"Call again with the name and path of the one you mean.",
+].join("\n");
+
+/**
+ * Note prepended to a result found under a corrected name or path
+ */
+export const resolutionNote = (query: NodeQuery, resolved?: NodeQuery): string =>
+	resolved ? `Resolved '${query.name}'${query.path ? ` in ${query.path}` : ""} to '${resolved.name}'${resolved.path ? ` in ${resolved.path}` : ""}.\n\n` : "";
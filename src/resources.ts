@@ -0,0 +1,128 @@
+import { basename } from "path";
+import { ReadResourceTemplateCallback, ResourceTemplate } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { UriTemplate, Variables } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
+import type { GraphTarget } from "./client.js";
+import type { ToolContext } from "./tools/context.js";
+import { extractRepoInfo } from "./utils.js";
+
+/**
+ * Resources expose the graph to clients that attach context without a tool
+ * call. `{repo}` is a repository (org/repo, percent-encoded), a graph ID, or
+ * the folder name of the local checkout. URL parsing drops `.` segments, so
+ * the root folder has a template of its own.
+ */
+export const ROOT_TREE_TEMPLATE = new UriTemplate("codegraph://{repo}/tree/");
+export const TREE_TEMPLATE = new UriTemplate("codegraph://{repo}/tree/{+path}");
+export const NODE_TEMPLATE = new UriTemplate("codegraph://{repo}/node/{+path}#{name}");
+
+type ResourceRepository = {
+	/** Value of `{repo}` in resource URIs */
+	key: string;
+	/** Human-readable name */
+	label: string;
+	target: GraphTarget;
+};
+
+const variable = (variables: Variables, name: string): string => {
+	const value = variables[name];
+	return decodeURIComponent(Array.isArray(value) ? value.join(",") : value ?? "");
+};
+
+export function registerResources({ server, config, backend }: ToolContext): void {
+	/**
+	 * Repositories a session can read: the multi-repo list, the one configured
+	 * repository, graph or checkout, or else every graph of the account
+	 */
+	const repositories = async (signal?: AbortSignal): Promise<ResourceRepository[]> => {
+		if (config.IS_MULTI_REPO) {
+			return config.REPO_LIST.map(repo => ({ key: repo, label: repo, target: { graphId: null, repoUrl: repo } }));
+		}
+		if (config.LOCAL_PATH) {
+			const key = basename(config.LOCAL_PATH) || "local";
+			return [{ key, label: config.LOCAL_PATH, target: { graphId: null } }];
+		}
+		if (config.CODEGPT_REPO_URL) {
+			const { repoOrg, repoName } = extractRepoInfo(config.CODEGPT_REPO_URL);
+			const key = `${repoOrg}/${repoName}`;
+			return [{ key, label: key, target: { graphId: null, repoUrl: config.CODEGPT_REPO_URL } }];
+		}
+		if (config.CODEGPT_GRAPH_ID) {
+			return [{ key: config.CODEGPT_GRAPH_ID, label: config.CODEGPT_GRAPH_ID, target: { graphId: config.CODEGPT_GRAPH_ID } }];
+		}
+		const graphs = await backend.listGraphs?.(signal) ?? [];
+		return graphs.map(graph => ({ key: graph.id, label: graph.name || graph.id, target: { graphId: graph.id } }));
+	};
+
+	const resolveRepository = async (key: string, signal?: AbortSignal): Promise<ResourceRepository> => {
+		const found = (await repositories(signal)).find(repository => repository.key === key);
+		// Graph IDs the account can read may be missing from the listing
+		if (!found && !config.IS_MULTI_REPO && !config.LOCAL_PATH && !config.CODEGPT_REPO_URL && !config.CODEGPT_GRAPH_ID) {
+			return { key, label: key, target: { graphId: key } };
+		}
+		if (!found) {
+			throw new Error(`Unknown repository '${key}'`);
+		}
+		return found;
+	};
+
+	const completeRepo = async (value: string) =>
+		(await repositories()).map(({ key }) => key).filter(key => key.startsWith(value));
+
+	const readTree: ReadResourceTemplateCallback = async (uri, variables, { signal }) => {
+		const { target } = await resolveRepository(variable(variables, "repo"), signal);
+		const path = variable(variables, "path").replace(/^\.?\/*$/, "");
+		const { text } = await backend.folderTreeStructure(target, path || undefined, signal);
+		if (!text) {
+			throw new Error(`No folder '${path || "."}' in the graph`);
+		}
+		return { contents: [{ uri: uri.href, mimeType: "text/plain", text }] };
+	};
+
+	server.resource(
+		"repository-tree",
+		new ResourceTemplate(ROOT_TREE_TEMPLATE, {
+			list: async ({ signal }) => ({
+				resources: (await repositories(signal)).map(({ key, label }) => ({
+					uri: ROOT_TREE_TEMPLATE.expand({ repo: key }),
+					name: `${label} file tree`,
+					mimeType: "text/plain",
+				})),
+			}),
+			complete: { repo: completeRepo },
+		}),
+		{
+			description: "Folder tree of a whole repository graph, as returned by folder-tree-structure.",
+			mimeType: "text/plain",
+		},
+		readTree
+	);
+
+	server.resource(
+		"folder-tree",
+		new ResourceTemplate(TREE_TEMPLATE, { list: undefined, complete: { repo: completeRepo } }),
+		{
+			description: "Folder tree of one folder of a repository graph, as returned by folder-tree-structure.",
+			mimeType: "text/plain",
+		},
+		readTree
+	);
+
+	server.resource(
+		"code-node",
+		new ResourceTemplate(NODE_TEMPLATE, { list: undefined, complete: { repo: completeRepo } }),
+		{
+			description: "Source code of one functionality, as returned by get-code. The fragment is the functionality name, e.g. 'ClassName.methodName'.",
+			mimeType: "text/plain",
+		},
+		async (uri, variables, { signal }) => {
+			const { target } = await resolveRepository(variable(variables, "repo"), signal);
+			const path = variable(variables, "path");
+			const name = variable(variables, "name");
+			const { text } = await backend.getCode(target, { name, path }, signal);
+			if (!text) {
+				throw new Error(`No functionality named '${name}' in ${path}`);
+			}
+			return { contents: [{ uri: uri.href, mimeType: "text/plain", text }] };
+		}
+	);
+}
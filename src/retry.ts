@@ -0,0 +1,94 @@
+/**
+ * Timeout and retry policy for upstream CodeGPT API calls
+ */
+export type RetryPolicy = {
+	/** Per-attempt timeout in milliseconds (0 disables the timeout) */
+	timeoutMs: number;
+	/** Number of retries after the first attempt */
+	maxRetries: number;
+	/** Base delay for exponential backoff */
+	baseDelayMs: number;
+	/** Upper bound for a single backoff delay, including Retry-After */
+	maxDelayMs: number;
+};
+
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+export const isRetryableStatus = (status: number): boolean => RETRYABLE_STATUSES.has(status);
+
+/**
+ * Exponential backoff with full jitter: a random delay between 0 and
+ * min(maxDelayMs, baseDelayMs * 2^attempt)
+ */
+export const backoffDelay = (policy: RetryPolicy, attempt: number): number => {
+	const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+	return Math.round(Math.random() * ceiling);
+};
+
+/**
+ * Parse a Retry-After header (delta seconds or HTTP date) into milliseconds
+ */
+export const parseRetryAfter = (header: string | null, now = Date.now()): number | null => {
+	if (!header) return null;
+
+	const seconds = Number(header);
+	if (Number.isFinite(seconds)) {
+		return Math.max(0, seconds * 1000);
+	}
+
+	const date = Date.parse(header);
+	if (Number.isNaN(date)) return null;
+	return Math.max(0, date - now);
+};
+
+/**
+ * Resolve after `ms`, rejecting early with the signal's reason if it aborts
+ */
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+	new Promise((resolve, reject) => {
+		if (signal?.aborted) {
+			reject(signal.reason);
+			return;
+		}
+		const onAbort = () => {
+			clearTimeout(timer);
+			reject(signal!.reason);
+		};
+		const timer = setTimeout(() => {
+			signal?.removeEventListener("abort", onAbort);
+			resolve();
+		}, ms);
+		signal?.addEventListener("abort", onAbort, { once: true });
+	});
+
+/**
+ * Create an AbortController for one attempt that aborts when the parent
+ * signal aborts or when the timeout elapses. Call `dispose` when done.
+ */
+export const attemptController = (timeoutMs: number, parent?: AbortSignal) => {
+	const controller = new AbortController();
+	let timedOut = false;
+
+	const onParentAbort = () => controller.abort(parent!.reason);
+	if (parent?.aborted) {
+		controller.abort(parent.reason);
+	} else {
+		parent?.addEventListener("abort", onParentAbort, { once: true });
+	}
+
+	const timer = timeoutMs > 0
+		? setTimeout(() => {
+			timedOut = true;
+			controller.abort(new Error(`Request timed out after ${timeoutMs}ms`));
+		}, timeoutMs)
+		: undefined;
+
+	return {
+		signal: controller.signal,
+		timedOut: () => timedOut,
+		dispose: () => {
+			clearTimeout(timer);
+			parent?.removeEventListener("abort", onParentAbort);
+		},
+	};
+};
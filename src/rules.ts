@@ -0,0 +1,145 @@
+import { existsSync } from "fs";
+import { readFile } from "fs/promises";
+import { extname, join } from "path";
+import { parse as parseYaml } from "yaml";
+import { z } from "zod";
+import { CodeGraph, inScope, nodeMatcher } from "./analytics.js";
+import type { GraphNode } from "./schemas.js";
+import { matchesRelation, TRAVERSAL_RELATIONS } from "./traversal.js";
+
+/**
+ * Architecture rules: which code may depend on which, as globs over paths and
+ * names, checked against every dependency edge of the graph. A rule either
+ * forbids some targets to its sources or allows them nothing but a list.
+ */
+
+/**
+ * Rules files looked up in the checkout when none is given
+ */
+export const RULES_FILES = ["codegraph.rules.json", "codegraph.rules.yaml", "codegraph.rules.yml"];
+
+const patternsSchema = z.union([z.string().min(1), z.array(z.string().min(1)).min(1)]);
+
+export const ruleSchema = z
+	.object({
+		name: z.string().min(1).describe("Short name reported with each violation"),
+		description: z.string().optional().describe("Why the rule exists"),
+		from: patternsSchema.describe("Globs of the paths or names the rule applies to. Examples: 'src/ui/**', '**'"),
+		except: patternsSchema.optional().describe("Globs of sources the rule does not apply to. Example: 'src/payments/**'"),
+		forbid: patternsSchema.optional().describe("Globs of targets the sources must not depend on. Example: 'src/db/**'"),
+		allow: patternsSchema.optional().describe("Globs of the only targets the sources may depend on, instead of forbid"),
+		relations: z
+			.array(z.enum(TRAVERSAL_RELATIONS))
+			.min(1)
+			.optional()
+			.describe("Dependencies checked: calls, imports, extends, implements (default all)"),
+	})
+	.strict()
+	.refine(rule => !rule.forbid !== !rule.allow, { message: "Give a rule either forbid or allow" });
+
+export const rulesSchema = z
+	.array(ruleSchema)
+	.min(1)
+	.refine(rules => new Set(rules.map(rule => rule.name)).size === rules.length, { message: "Rule names must be unique" });
+
+const rulesFileSchema = z.object({ rules: rulesSchema }).strict();
+
+export type ArchitectureRule = z.infer<typeof ruleSchema>;
+
+export type RuleViolation = {
+	rule: string;
+	relation: string;
+	source: GraphNode;
+	target: GraphNode;
+};
+
+type Dependency = Omit<RuleViolation, "rule">;
+
+const patternList = (patterns?: string | string[]): string[] =>
+	patterns === undefined ? [] : typeof patterns === "string" ? [patterns] : patterns;
+
+/**
+ * The first of RULES_FILES present in `dir`
+ */
+export const findRulesFile = (dir: string): string | undefined =>
+	RULES_FILES.map(name => join(dir, name)).find(path => existsSync(path));
+
+/**
+ * Read and validate a JSON or YAML rules file
+ */
+export const loadRulesFile = async (path: string): Promise<ArchitectureRule[]> => {
+	let raw: unknown;
+	try {
+		const text = await readFile(path, "utf8");
+		raw = extname(path) === ".json" ? JSON.parse(text) : parseYaml(text);
+	} catch (error) {
+		throw new Error(`Could not read rules file ${path}: ${error instanceof Error ? error.message : error}`);
+	}
+
+	const parsed = rulesFileSchema.safeParse(raw);
+	if (!parsed.success) {
+		const issues = parsed.error.issues.map(({ path: at, message }) => `${at.join(".") || "file"}: ${message}`);
+		throw new Error(`Invalid rules file ${path}: ${issues.join("; ")}`);
+	}
+	return parsed.data.rules;
+};
+
+/**
+ * One line stating what a rule requires
+ */
+export const describeRule = (rule: ArchitectureRule): string => {
+	const from = patternList(rule.from).join(", ");
+	const except = rule.except ? ` (except ${patternList(rule.except).join(", ")})` : "";
+	return rule.forbid
+		? `${from}${except} must not depend on ${patternList(rule.forbid).join(", ")}`
+		: `${from}${except} may only depend on ${patternList(rule.allow).join(", ")}`;
+};
+
+/**
+ * Every dependency edge breaking a rule, by rule then source. Sources can be
+ * narrowed to a folder with `scope`. Dependencies inside one file never count.
+ */
+export const checkRules = ({ nodes, edges }: CodeGraph, rules: ArchitectureRule[], scope?: string): RuleViolation[] => {
+	const byId = new Map(nodes.map(node => [node.id, node]));
+	const dependencies = edges
+		.filter(edge => edge.relation !== "contains")
+		.map(edge => ({ relation: edge.relation, source: byId.get(edge.source), target: byId.get(edge.target) }))
+		.filter((edge): edge is Dependency =>
+			!!edge.source && !!edge.target && edge.source.path !== edge.target.path && inScope(edge.source.path, scope));
+
+	return rules.flatMap(rule => {
+		const isSource = nodeMatcher(patternList(rule.from));
+		const isExempt = nodeMatcher(patternList(rule.except));
+		const allowed = nodeMatcher(patternList(rule.allow));
+		const breaks = rule.forbid ? nodeMatcher(patternList(rule.forbid)) : (node: GraphNode) => !allowed(node);
+		const relations = rule.relations ?? TRAVERSAL_RELATIONS;
+
+		return dependencies
+			.filter(({ relation, source, target }) =>
+				matchesRelation(relation, relations) && isSource(source) && !isExempt(source) && breaks(target))
+			.map(({ relation, source, target }) => ({ rule: rule.name, relation, source, target }))
+			.sort((a, b) => a.source.id.localeCompare(b.source.id) || a.target.id.localeCompare(b.target.id) || a.relation.localeCompare(b.relation));
+	});
+};
+
+/**
+ * A violation as one line: the offending edge and the files it links
+ */
+export const describeViolation = ({ relation, source, target }: RuleViolation): string =>
+	`${source.id} -[${relation}]-> ${target.id} (${source.path} -> ${target.path})`;
+
+/**
+ * Violations grouped under the rule they break, or a line saying every rule passes
+ */
+export const formatRuleReport = (rules: ArchitectureRule[], violations: RuleViolation[], total = violations.length): string => {
+	if (!total) return `All ${rules.length} architecture rule(s) pass`;
+	const broken = rules.filter(rule => violations.some(violation => violation.rule === rule.name));
+	return [
+		`${total} violation(s) of ${rules.length} architecture rule(s)`,
+		...broken.flatMap(rule => [
+			"",
+			`${rule.name}: ${describeRule(rule)}${rule.description ? ` (${rule.description})` : ""}`,
+			...violations.filter(violation => violation.rule === rule.name).map(violation => `- ${describeViolation(violation)}`),
+		]),
+	].join("\n");
+};
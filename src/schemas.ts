@@ -0,0 +1,216 @@
+import { z, ZodRawShape } from "zod";
+
+// ============================================================================
+// Graph Entities
+// ============================================================================
+
+export const graphNodeSchema = z.object({
+	id: z.string().describe("Unique node identifier in 'file_path::functionality_name' form"),
+	name: z.string().describe("Functionality name, e.g. 'ClassName.methodName'"),
+	path: z.string().describe("Origin file path, or 'global'"),
+	kind: z.string().optional().describe("Node kind: file, class, interface, function, method, ..."),
+	startLine: z.number().int().optional().describe("First line of the definition (1-based)"),
+	endLine: z.number().int().optional().describe("Last line of the definition (1-based)"),
+	code: z.string().optional().describe("Source code of the node"),
+	score: z.number().optional().describe("Relevance score for search results"),
+	repository: z.string().optional().describe("Repository of the node, in searches across several repositories"),
+});
+
+export const graphEdgeSchema = z.object({
+	source: z.string().describe("Source node ID"),
+	target: z.string().describe("Target node ID"),
+	relation: z.string().describe("Relation type: calls, imports, extends, implements, contains, uses, ..."),
+});
+
+export const outlineSymbolSchema = graphNodeSchema.extend({
+	signature: z.string().describe("Declaration without its body"),
+	doc: z.string().optional().describe("First sentence of the doc comment"),
+	parent: z.string().optional().describe("ID of the enclosing symbol, e.g. the class of a method"),
+});
+
+export const treeEntrySchema = z.object({
+	path: z.string(),
+	type: z.enum(["file", "folder"]),
+});
+
+export type GraphNode = z.infer<typeof graphNodeSchema>;
+export type GraphEdge = z.infer<typeof graphEdgeSchema>;
+export type TreeEntry = z.infer<typeof treeEntrySchema>;
+export type OutlineSymbol = z.infer<typeof outlineSymbolSchema>;
+
+// ============================================================================
+// Tool Output Schemas
+// ============================================================================
+
+const toolErrorSchema = z.object({
+	kind: z.string(),
+	message: z.string(),
+});
+
+/**
+ * Output schema for a tool. Fields are optional so that error results, which
+ * only carry `error`, still validate against the declared schema.
+ */
+const outputShape = <T extends ZodRawShape>(shape: T) => ({
+	...z.object(shape).partial().shape,
+	error: toolErrorSchema.optional(),
+});
+
+// Repositories that failed while others answered a fanned out call
+const repositoryFailuresSchema = z.array(
+	z.object({
+		repository: z.string(),
+		error: toolErrorSchema,
+	})
+).describe("Repositories that could not be queried");
+
+const graphInfoSchema = z.object({
+	id: z.string(),
+	name: z.string().nullish(),
+	branch: z.string().nullish(),
+	description: z.string().nullish(),
+}).passthrough();
+
+export const listGraphsOutput = outputShape({
+	graphs: z.array(graphInfoSchema),
+});
+
+export const selectedGraphOutput = outputShape({
+	graph: graphInfoSchema.nullable().describe("The active graph, null when none is selected"),
+	message: z.string(),
+});
+
+// Nodes a misspelled or ambiguous name could mean, in place of a result
+const candidatesSchema = z.array(graphNodeSchema).describe("Functionalities the requested name could mean, best match first");
+
+export const nodesOutput = outputShape({
+	nodes: z.array(graphNodeSchema),
+	failures: repositoryFailuresSchema,
+	candidates: candidatesSchema,
+});
+
+export const subgraphOutput = outputShape({
+	nodes: z.array(graphNodeSchema),
+	edges: z.array(graphEdgeSchema),
+	candidates: candidatesSchema,
+});
+
+export const codeBatchOutput = outputShape({
+	items: z.array(
+		z.object({
+			name: z.string(),
+			path: z.string().optional(),
+			repository: z.string().optional(),
+			nodes: z.array(graphNodeSchema).optional().describe("Nodes found, with their code"),
+			candidates: candidatesSchema.optional(),
+			resolved: z.object({ name: z.string(), path: z.string().optional() }).optional()
+				.describe("Name and path the item was resolved to, when it matched nothing as given"),
+			truncated: z.boolean().optional().describe("Whether the code was cut to respect maxChars"),
+			error: toolErrorSchema.optional(),
+		})
+	).describe("One entry per requested item, in request order"),
+	truncated: z.boolean().describe("Whether any code was cut to respect maxChars"),
+});
+
+export const traversalOutput = outputShape({
+	nodes: z.array(
+		graphNodeSchema.extend({
+			depth: z.number().int().describe("Hops from the start node"),
+		})
+	),
+	edges: z.array(graphEdgeSchema),
+	truncated: z.boolean().describe("Whether the node limit stopped the traversal early"),
+});
+
+export const pathsOutput = outputShape({
+	paths: z.array(
+		z.object({
+			nodes: z.array(graphNodeSchema).describe("Nodes from the start to the end of the path"),
+			edges: z.array(graphEdgeSchema).describe("Edge of each hop, in order"),
+		})
+	),
+	explored: z.number().int().describe("Number of nodes reached while searching"),
+	truncated: z.boolean().describe("Whether the node limit stopped the search before a path was found"),
+});
+
+export const diagramOutput = outputShape({
+	format: z.enum(["mermaid", "dot"]),
+	diagram: z.string().describe("Mermaid flowchart or Graphviz DOT source"),
+	nodes: z.array(graphNodeSchema).describe("Nodes drawn in the diagram"),
+	edges: z.array(graphEdgeSchema).describe("Edges drawn in the diagram"),
+	truncated: z.boolean().describe("Whether nodes were left out to respect maxNodes"),
+});
+
+export const impactOutput = outputShape({
+	changed: z.array(
+		z.object({
+			path: z.string().describe("File path in the graph"),
+			status: z.enum(["added", "deleted", "modified", "renamed"]),
+			entities: z.array(graphNodeSchema).describe("Functionalities whose lines the diff touches"),
+		})
+	),
+	impacted: z.array(
+		z.object({
+			path: z.string().describe("File path in the graph, empty when unknown"),
+			nodes: z.array(
+				graphNodeSchema.extend({
+					via: z.array(z.string()).describe("IDs of the changed functionalities this node depends on"),
+					distance: z.number().int().optional().describe("Fewest hops from a changed functionality"),
+				})
+			).describe("Impacted functionalities of the file, most affected first"),
+		})
+	).describe("Impacted functionalities by file, files in order of their most affected functionality"),
+	skipped: z.array(z.string()).describe("Diff paths that are not part of the graph"),
+	truncated: z.boolean().describe("Whether only the first maxEntities changed functionalities were analysed"),
+});
+
+export const treeOutput = outputShape({
+	entries: z.array(treeEntrySchema),
+});
+
+export const outlineOutput = outputShape({
+	symbols: z.array(outlineSymbolSchema).describe("Symbols by file and position; nested ones name their parent"),
+});
+
+export const analysisOutput = outputShape({
+	mode: z.enum(["hotspots", "cycles", "dead-code"]),
+	hotspots: z.array(
+		graphNodeSchema.extend({
+			fanIn: z.number().int().describe("Distinct functionalities, files or folders depending on this one"),
+			fanOut: z.number().int().describe("Distinct functionalities, files or folders this one depends on"),
+		})
+	).describe("Most connected first; files and folders are nodes whose ID is their path"),
+	cycles: z.array(
+		z.object({
+			members: z.array(z.string()).describe("Functionalities, files or folders depending on each other in a loop"),
+			cycle: z.array(z.string()).describe("One loop through the members, ending where it starts"),
+			edges: z.array(graphEdgeSchema).describe("Dependencies between the members"),
+		})
+	).describe("Largest first"),
+	deadCode: z.array(graphNodeSchema).describe("Functions, classes and methods nothing calls, instantiates or inherits from"),
+	total: z.number().int().describe("Findings before the limit was applied"),
+	truncated: z.boolean().describe("Whether findings were left out to respect limit"),
+});
+
+export const rulesOutput = outputShape({
+	rules: z.number().int().describe("Number of rules checked"),
+	violations: z.array(
+		z.object({
+			rule: z.string().describe("Name of the broken rule"),
+			relation: z.string().describe("Dependency breaking it: calls, imports, extends or implements"),
+			source: graphNodeSchema.describe("Node the dependency starts from"),
+			target: graphNodeSchema.describe("Node it depends on"),
+		})
+	).describe("By rule, then source"),
+	total: z.number().int().describe("Violations before the limit was applied"),
+	truncated: z.boolean().describe("Whether violations were left out to respect limit"),
+});
+
+export const docsOutput = outputShape({
+	results: z.unknown(),
+	failures: repositoryFailuresSchema,
+});
+
+export const messageOutput = outputShape({
+	message: z.string(),
+});
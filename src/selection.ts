@@ -0,0 +1,71 @@
+import type { Graph } from "./client.js";
+
+/**
+ * The graph a session works on when none is configured, chosen with
+ * select-graph. Tools use it unless a call passes its own `graphId`.
+ */
+export class GraphSelection {
+	private active?: Graph;
+
+	get current(): Graph | undefined {
+		return this.active;
+	}
+
+	get graphId(): string | undefined {
+		return this.active?.id;
+	}
+
+	select(graph: Graph): void {
+		this.active = graph;
+	}
+
+	clear(): void {
+		this.active = undefined;
+	}
+}
+
+export type GraphLookup = {
+	graphId?: string;
+	/** Repository name, `org/repo` or just `repo`, case-insensitive */
+	name?: string;
+	branch?: string;
+};
+
+/**
+ * One-line label of a graph: `name@branch (id)`
+ */
+export const describeGraph = (graph: Graph): string =>
+	`${graph.name || "(unnamed)"}${graph.branch ? `@${graph.branch}` : ""} (${graph.id})`;
+
+const sameName = (graphName: string, wanted: string): boolean => {
+	const name = graphName.toLowerCase().replace(/\/+$/, "");
+	const target = wanted.toLowerCase().trim().replace(/\/+$/, "");
+	return name === target || name.endsWith(`/${target}`);
+};
+
+/**
+ * Find the one graph matching an ID or a repository name and branch. Errors
+ * list the candidates so the agent can narrow the lookup down.
+ */
+export const findGraph = (graphs: Graph[], { graphId, name, branch }: GraphLookup): Graph => {
+	if (graphId) {
+		// Graph IDs the account can read may be missing from the listing
+		return graphs.find(graph => graph.id === graphId) ?? { id: graphId };
+	}
+	if (!name) {
+		throw new Error("Provide graphId or name");
+	}
+
+	const named = graphs.filter(graph => graph.name && sameName(graph.name, name));
+	const matches = branch ? named.filter(graph => graph.branch === branch) : named;
+	if (matches.length === 1) {
+		return matches[0];
+	}
+
+	const wanted = `'${name}'${branch ? ` on branch '${branch}'` : ""}`;
+	if (!matches.length) {
+		const hint = named.length ? `Branches available: ${named.map(graph => graph.branch || "(none)").join(", ")}` : "Call list-graphs to see the available graphs";
+		throw new Error(`No graph matches ${wanted}. ${hint}`);
+	}
+	throw new Error(`Several graphs match ${wanted}: ${matches.map(describeGraph).join(", ")}. Pass branch or graphId to choose one`);
+};
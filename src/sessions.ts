@@ -0,0 +1,154 @@
+import type { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { Request, Response } from "express";
+import { logger } from "./logger.js";
+
+export type SessionOptions = {
+	/** Close sessions without any request for this long; 0 keeps them forever */
+	idleTimeoutMs: number;
+	/** Maximum concurrent sessions; 0 for no limit */
+	maxSessions: number;
+	/** How often idle sessions are looked for */
+	sweepIntervalMs: number;
+	/** How long shutdown waits for in-flight requests before closing sessions */
+	shutdownTimeoutMs: number;
+};
+
+export type Session = {
+	transport: StreamableHTTPServerTransport;
+	/** Caller that opened the session */
+	principalId: string;
+	lastSeen: number;
+	/** Open POST requests, i.e. running tool calls and other JSON-RPC requests */
+	inFlight: number;
+	/** Open GET streams for server-sent events */
+	streams: number;
+};
+
+const envInt = (name: string, fallback: number): number => {
+	const value = parseInt(process.env[name] || "", 10);
+	return Number.isNaN(value) || value < 0 ? fallback : value;
+};
+
+/**
+ * Read the HTTP session settings from the environment
+ */
+export const loadSessionOptions = (): SessionOptions => ({
+	idleTimeoutMs: envInt("MCP_SESSION_IDLE_TIMEOUT_MS", 30 * 60 * 1000),
+	maxSessions: envInt("MCP_MAX_SESSIONS", 100),
+	sweepIntervalMs: envInt("MCP_SESSION_SWEEP_INTERVAL_MS", 60 * 1000),
+	shutdownTimeoutMs: envInt("MCP_SHUTDOWN_TIMEOUT_MS", 10 * 1000),
+});
+
+/**
+ * Active HTTP sessions with their activity, so abandoned sessions can be
+ * expired and in-flight requests drained on shutdown
+ */
+export class SessionRegistry {
+	private readonly sessions = new Map<string, Session>();
+	/** Slots held by sessions still initializing */
+	private reserved = 0;
+	private sweeper?: NodeJS.Timeout;
+
+	constructor(readonly options: SessionOptions) {}
+
+	get size(): number {
+		return this.sessions.size;
+	}
+
+	get(sessionId: string): Session | undefined {
+		return this.sessions.get(sessionId);
+	}
+
+	/**
+	 * Hold a slot for a session about to be initialized, so concurrent
+	 * initializations cannot exceed the limit. Returns false when every slot
+	 * is taken. The slot passes to the session on add(), or must be given back
+	 * with release() when initialization fails.
+	 */
+	reserve(): boolean {
+		const { maxSessions } = this.options;
+		if (maxSessions > 0 && this.sessions.size + this.reserved >= maxSessions) return false;
+		this.reserved++;
+		return true;
+	}
+
+	release(): void {
+		this.reserved = Math.max(this.reserved - 1, 0);
+	}
+
+	add(sessionId: string, transport: StreamableHTTPServerTransport, principalId: string): Session {
+		this.release();
+		const session: Session = { transport, principalId, lastSeen: Date.now(), inFlight: 0, streams: 0 };
+		this.sessions.set(sessionId, session);
+		return session;
+	}
+
+	remove(sessionId: string): boolean {
+		return this.sessions.delete(sessionId);
+	}
+
+	/**
+	 * Count a request against its session until the response is finished
+	 */
+	track(session: Session, req: Request, res: Response): void {
+		const counter = req.method === "GET" ? "streams" : "inFlight";
+		session[counter]++;
+		session.lastSeen = Date.now();
+		res.once("close", () => {
+			session[counter]--;
+			session.lastSeen = Date.now();
+		});
+	}
+
+	/**
+	 * Close sessions idle for longer than the idle timeout. Sessions with an
+	 * open request are never idle.
+	 */
+	async sweep(now = Date.now()): Promise<number> {
+		if (!this.options.idleTimeoutMs) return 0;
+
+		const expired = [...this.sessions.entries()].filter(([, session]) =>
+			!session.inFlight && !session.streams && now - session.lastSeen > this.options.idleTimeoutMs
+		);
+		for (const [sessionId, session] of expired) {
+			this.sessions.delete(sessionId);
+			await session.transport.close().catch(error => logger.warn("Error closing MCP session", { sessionId, error }));
+			logger.info("MCP session expired", { sessionId });
+		}
+		return expired.length;
+	}
+
+	startSweeper(): void {
+		if (!this.options.idleTimeoutMs || !this.options.sweepIntervalMs || this.sweeper) return;
+		this.sweeper = setInterval(() => void this.sweep(), this.options.sweepIntervalMs);
+		// The sweeper alone must not keep the process alive
+		this.sweeper.unref();
+	}
+
+	/**
+	 * Wait until no session has a request in flight and none is initializing,
+	 * or the shutdown timeout passes. Returns the number of requests still
+	 * running.
+	 */
+	async drain(): Promise<number> {
+		// Each reserved slot is held by the request initializing its session
+		const inFlight = () => [...this.sessions.values()].reduce((count, session) => count + session.inFlight, this.reserved);
+		const deadline = Date.now() + this.options.shutdownTimeoutMs;
+		while (inFlight() > 0 && Date.now() < deadline) {
+			await new Promise(resolve => setTimeout(resolve, 100));
+		}
+		return inFlight();
+	}
+
+	/**
+	 * Stop the sweeper and close every session
+	 */
+	async closeAll(): Promise<void> {
+		clearInterval(this.sweeper);
+		const sessions = [...this.sessions.entries()];
+		this.sessions.clear();
+		await Promise.all(sessions.map(([sessionId, { transport }]) =>
+			transport.close().catch(error => logger.warn("Error closing MCP session", { sessionId, error }))
+		));
+	}
+}
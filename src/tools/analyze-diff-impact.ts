@@ -0,0 +1,112 @@
+import { z } from "zod";
+import { parseUnifiedDiff, readGitDiff } from "../diff.js";
+import { ImpactedFile, ImpactedNode, analyzeDiffImpact } from "../impact.js";
+import { logger } from "../logger.js";
+import { impactOutput } from "../schemas.js";
+import { createToolSchema, errorResult, resolveTarget, structuredResult } from "../utils.js";
+import type { ToolContext } from "./context.js";
+import { registerListTool } from "./register.js";
+
+const DEFAULT_MAX_ENTITIES = 50;
+
+const describeImpacted = (node: ImpactedNode): string => {
+	const names = node.via.map(id => id.split("::").pop());
+	const via = names.length > 3 ? `${names.slice(0, 3).join(", ")} and ${names.length - 3} more` : names.join(", ");
+	const distance = node.distance === undefined ? "" : `, ${node.distance} hop${node.distance === 1 ? "" : "s"}`;
+	return `  - ${node.name}${node.kind ? ` (${node.kind})` : ""}: via ${via}${distance}`;
+};
+
+const describeImpactedFile = ({ path, nodes }: ImpactedFile): string =>
+	[path || "(unknown file)", ...nodes.map(describeImpacted)].join("\n");
+
+const describeSkipped = (skipped: string[]): string[] =>
+	skipped.length ? [`Not in the graph: ${skipped.join(", ")}`] : [];
+
+export function registerAnalyzeDiffImpactTool({ server, config, backend, repository, selection }: ToolContext): void {
+	// Git ranges can only be read where the server runs next to the checkout
+	const acceptsRange = !!config.WORKSPACE_DIR;
+
+	registerListTool(
+		server,
+		"analyze-diff-impact",
+		{
+			description: `Estimate what a change to the repository ${repository} might break. Takes a unified diff${acceptsRange ? " or a local git range" : ""}, maps the changed hunks to the functionalities they touch and returns every functionality depending on them, deduplicated, ranked (most changed entities reached and fewest hops first) and grouped by file. Use it to review pull requests instead of calling get-usage-dependency-links once per changed functionality.`,
+			inputSchema: createToolSchema(config, {
+				diff: z
+					.string()
+					.optional()
+					.describe(`A unified diff, as printed by 'git diff' or 'diff -u'${acceptsRange ? ". Provide either diff or range" : ""}`),
+				range: z
+					.string()
+					.optional()
+					.describe(acceptsRange
+						? `A git range diffed in ${config.WORKSPACE_DIR}. Examples: 'main..HEAD', 'HEAD~3', 'origin/main...feature'`
+						: "Not available on this server, which has no checkout to run git in; pass diff instead"),
+				maxEntities: z
+					.number()
+					.int()
+					.min(1)
+					.max(500)
+					.default(DEFAULT_MAX_ENTITIES)
+					.describe(`Maximum number of changed functionalities analysed (default ${DEFAULT_MAX_ENTITIES})`),
+			}),
+			outputSchema: impactOutput,
+			list: { fields: ["impacted"], renderItem: describeImpactedFile, notes: ({ skipped }) => describeSkipped(skipped ?? []) },
+		},
+		async ({
+			diff,
+			range,
+			maxEntities,
+			graphId,
+			repository
+		}: {
+			diff?: string;
+			range?: string;
+			maxEntities: number;
+			graphId?: string;
+			repository?: string;
+		}, { signal }) => {
+			try {
+				if (range && !acceptsRange) {
+					throw new Error("range needs a local checkout, which this server does not have; pass diff instead");
+				}
+				if (!diff === !range) {
+					throw new Error(acceptsRange ? "Provide either diff or range" : "diff is required");
+				}
+
+				const target = resolveTarget(config, graphId, repository, selection);
+				const text = diff ?? await readGitDiff(config.WORKSPACE_DIR, range!);
+				const files = parseUnifiedDiff(text);
+				if (!files.length) {
+					return structuredResult("The diff does not change any file", { changed: [], impacted: [], skipped: [], truncated: false });
+				}
+
+				const report = await analyzeDiffImpact(backend, target, files, maxEntities, signal);
+				const entityCount = new Set(report.changed.flatMap(file => file.entities.map(node => node.id))).size;
+				const impactedCount = report.impacted.reduce((count, file) => count + file.nodes.length, 0);
+
+				const lines = [
+					`Changed: ${entityCount} functionalit${entityCount === 1 ? "y" : "ies"} in ${report.changed.length} file(s)`,
+					...report.changed.flatMap(file => [
+						`${file.path} (${file.status})`,
+						...(file.entities.length
+							? file.entities.map(node => `  - ${node.name}${node.kind ? ` (${node.kind})` : ""}`)
+							: ["  - (no functionalities found)"]),
+					]),
+					"",
+					`Impacted: ${impactedCount} functionalit${impactedCount === 1 ? "y" : "ies"} in ${report.impacted.length} file(s)`,
+					...(report.impacted.length
+						? report.impacted.map(describeImpactedFile)
+						: ["- (none)"]),
+					...(report.skipped.length ? ["", ...describeSkipped(report.skipped)] : []),
+					...(report.truncated ? ["", `Only the first ${maxEntities} of ${entityCount} changed functionalities were analysed; raise maxEntities to analyse the rest.`] : []),
+				];
+
+				return structuredResult(lines.join("\n"), { ...report });
+			} catch (error) {
+				logger.error("Error analyzing diff impact", { error });
+				return errorResult(error);
+			}
+		}
+	);
+}
@@ -0,0 +1,149 @@
+import { z } from "zod";
+import { AnalysisLevel, Cycle, findCycles, findDeadCode, findHotspots, Hotspot } from "../analytics.js";
+import { logger } from "../logger.js";
+import { analysisOutput, GraphNode } from "../schemas.js";
+import { TRAVERSAL_RELATIONS, TraversalRelation } from "../traversal.js";
+import { createToolSchema, errorResult, resolveTarget, structuredResult } from "../utils.js";
+import type { ToolContext } from "./context.js";
+import { registerListTool } from "./register.js";
+
+type AnalysisMode = "hotspots" | "cycles" | "dead-code";
+
+const DEFAULT_LIMIT = 50;
+const CYCLE_RELATIONS: TraversalRelation[] = ["imports", "calls"];
+
+const plural = (count: number, noun: string): string => `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+const limitNote = (shown: number, total: number): string[] =>
+	total > shown ? ["", `${total - shown} more left out; raise limit or narrow path to see them.`] : [];
+
+// Files and folders are their own ID; only functionalities get their kind
+const describeHotspot = (node: Hotspot): string =>
+	`- ${node.id}${node.kind && node.kind !== "file" && node.kind !== "folder" ? ` [${node.kind}]` : ""}: fan-in ${node.fanIn}, fan-out ${node.fanOut}`;
+
+const describeCycle = ({ members, cycle }: Cycle): string =>
+	`- ${cycle.join(" -> ")}${members.length > cycle.length - 1 ? ` (${members.length} members: ${members.join(", ")})` : ""}`;
+
+const describeDeadCode = (node: GraphNode): string =>
+	`- ${node.id} [${node.kind}${node.startLine === undefined ? "" : `, lines ${node.startLine}-${node.endLine}`}]`;
+
+const describeFinding = (finding: Hotspot | Cycle | GraphNode): string =>
+	"cycle" in finding ? describeCycle(finding) : "fanIn" in finding ? describeHotspot(finding) : describeDeadCode(finding);
+
+export function registerAnalyzeGraphTool({ server, config, backend, repository, selection }: ToolContext): void {
+	const fullGraph = backend.fullGraph?.bind(backend);
+	if (!fullGraph) return;
+
+	registerListTool(
+		server,
+		"analyze-graph",
+		{
+			description: `Analyse the structure of the whole code graph of the repository ${repository}, optionally within one folder. Modes: 'hotspots' ranks the most depended-on functionalities, files or folders by fan-in (or fan-out); 'cycles' finds files or folders that import or call each other in a loop; 'dead-code' lists functions, classes and methods nothing calls, instantiates or inherits from, except configured entry points. Use it for architecture reviews and to decide where refactoring pays off.`,
+			inputSchema: createToolSchema(config, {
+				mode: z
+					.enum(["hotspots", "cycles", "dead-code"])
+					.describe("'hotspots': fan-in/fan-out ranking; 'cycles': dependency loops; 'dead-code': unreferenced functionalities"),
+				path: z
+					.string()
+					.optional()
+					.describe("Only analyse this folder or file. Examples: 'src/services', 'packages/api'"),
+				level: z
+					.enum(["symbol", "file", "folder"])
+					.optional()
+					.describe("Count functionalities ('symbol'), files or folders as units (default 'symbol' for hotspots, 'file' for cycles; ignored for dead-code)"),
+				edgeTypes: z
+					.array(z.enum(TRAVERSAL_RELATIONS))
+					.min(1)
+					.optional()
+					.describe("Dependencies to count: calls, imports, extends, implements (default all for hotspots, imports and calls for cycles)"),
+				sortBy: z
+					.enum(["fanIn", "fanOut"])
+					.default("fanIn")
+					.describe("Hotspots only: rank by dependents ('fanIn') or by dependencies ('fanOut')"),
+				entryPoints: z
+					.array(z.string().min(1))
+					.optional()
+					.describe("Dead-code only: extra glob patterns of paths or names that are used from outside the graph, on top of the configured ones. Examples: 'src/cli.ts', 'src/routes/**', 'main'"),
+				limit: z
+					.number()
+					.int()
+					.min(1)
+					.max(1000)
+					.default(DEFAULT_LIMIT)
+					.describe(`Maximum number of findings returned (default ${DEFAULT_LIMIT})`),
+			}),
+			outputSchema: analysisOutput,
+			list: { fields: ["hotspots", "cycles", "deadCode"], renderItem: describeFinding },
+		},
+		async ({
+			mode,
+			path,
+			level,
+			edgeTypes,
+			sortBy,
+			entryPoints,
+			limit,
+			graphId,
+			repository
+		}: {
+			mode: AnalysisMode;
+			path?: string;
+			level?: AnalysisLevel;
+			edgeTypes?: TraversalRelation[];
+			sortBy: "fanIn" | "fanOut";
+			entryPoints?: string[];
+			limit: number;
+			graphId?: string;
+			repository?: string;
+		}, { signal }) => {
+			try {
+				const target = resolveTarget(config, graphId, repository, selection);
+				const graph = await fullGraph(target, signal);
+				const where = path ? ` under ${path}` : "";
+
+				if (mode === "hotspots") {
+					const unit = level ?? "symbol";
+					const all = findHotspots(graph, { level: unit, relations: edgeTypes ?? TRAVERSAL_RELATIONS, scope: path, sortBy });
+					const hotspots = all.slice(0, limit);
+					const text = hotspots.length
+						? [
+							`Top ${plural(hotspots.length, "hotspot")} by ${sortBy === "fanIn" ? "fan-in" : "fan-out"} (${unit} level)${where}:`,
+							...hotspots.map(describeHotspot),
+							...limitNote(hotspots.length, all.length),
+						].join("\n")
+						: `No dependencies found${where}`;
+					return structuredResult(text, { mode, hotspots, total: all.length, truncated: all.length > hotspots.length });
+				}
+
+				if (mode === "cycles") {
+					const unit = level ?? "file";
+					const relations = edgeTypes ?? CYCLE_RELATIONS;
+					const all = findCycles(graph, { level: unit, relations, scope: path });
+					const cycles = all.slice(0, limit);
+					const text = cycles.length
+						? [
+							`${plural(all.length, "cycle")} between ${unit === "symbol" ? "functionalities" : `${unit}s`} (${relations.join(", ")})${where}:`,
+							...cycles.map(describeCycle),
+							...limitNote(cycles.length, all.length),
+						].join("\n")
+						: `No cycles between ${unit === "symbol" ? "functionalities" : `${unit}s`} (${relations.join(", ")})${where}`;
+					return structuredResult(text, { mode, cycles, total: all.length, truncated: all.length > cycles.length });
+				}
+
+				const all = findDeadCode(graph, { scope: path, entryPoints: [...config.ENTRY_POINTS, ...(entryPoints ?? [])] });
+				const deadCode = all.slice(0, limit);
+				const text = deadCode.length
+					? [
+						`${plural(all.length, "dead code candidate")}${where}. Nothing in the graph calls, instantiates or inherits from them; check for dynamic or external use before removing:`,
+						...deadCode.map(describeDeadCode),
+						...limitNote(deadCode.length, all.length),
+					].join("\n")
+					: `No dead code candidates${where}`;
+				return structuredResult(text, { mode, deadCode, total: all.length, truncated: all.length > deadCode.length });
+			} catch (error) {
+				logger.error("Error analysing graph", { error });
+				return errorResult(error);
+			}
+		}
+	);
+}
@@ -0,0 +1,111 @@
+import { isAbsolute, relative, resolve, sep } from "path";
+import { z } from "zod";
+import { logger } from "../logger.js";
+import { ArchitectureRule, checkRules, describeViolation, findRulesFile, formatRuleReport, loadRulesFile, RuleViolation, RULES_FILES, rulesSchema } from "../rules.js";
+import { rulesOutput } from "../schemas.js";
+import { createToolSchema, errorResult, resolveTarget, structuredResult } from "../utils.js";
+import type { ToolContext } from "./context.js";
+import { registerListTool } from "./register.js";
+
+const DEFAULT_LIMIT = 100;
+
+// A rules file named by the caller, refused unless it lies inside the checkout
+const checkoutFile = (dir: string, name: string): string => {
+	const file = resolve(dir, name);
+	const inside = relative(dir, file);
+	if (!inside || inside === ".." || inside.startsWith(`..${sep}`) || isAbsolute(inside)) {
+		throw new Error(`rulesFile must be a file inside ${dir}`);
+	}
+	return file;
+};
+
+export function registerCheckArchitectureRulesTool({ server, config, backend, repository, selection }: ToolContext): void {
+	const fullGraph = backend.fullGraph?.bind(backend);
+	if (!fullGraph) return;
+
+	// Rules files can only be read where the server runs next to the checkout
+	const acceptsFile = !!config.WORKSPACE_DIR;
+	const defaultRules = config.RULES_FILE
+		? `the rules in ${config.RULES_FILE}`
+		: acceptsFile ? `the rules in ${RULES_FILES.join(" or ")} of ${config.WORKSPACE_DIR}` : "";
+
+	registerListTool(
+		server,
+		"check-architecture-rules",
+		{
+			description: `Check the code graph of the repository ${repository} against architecture rules, e.g. 'src/ui/** must not depend on src/db/**' or 'nothing outside src/payments/** may call PaymentGateway', and report every dependency (call, import, extends, implements) breaking one, with the files it links. Rules match paths or names with globs; each forbids some targets to its sources or allows them only a list.${defaultRules ? ` Without rules, ${defaultRules} are checked.` : ""} Use it instead of checking layering by hand with find-direct-connections.`,
+			inputSchema: createToolSchema(config, {
+				rules: rulesSchema
+					.optional()
+					.describe("The rules to check, each with name, from, optional except, and forbid or allow (globs of paths or names)"),
+				rulesFile: z
+					.string()
+					.min(1)
+					.optional()
+					.describe(acceptsFile
+						? `A JSON or YAML rules file, relative to ${config.WORKSPACE_DIR}, instead of rules. Example: 'codegraph.rules.yaml'`
+						: "Not available on this server, which has no checkout to read files from; pass rules instead"),
+				path: z
+					.string()
+					.optional()
+					.describe("Only check dependencies starting in this folder or file. Example: 'src/ui'"),
+				limit: z
+					.number()
+					.int()
+					.min(1)
+					.max(1000)
+					.default(DEFAULT_LIMIT)
+					.describe(`Maximum number of violations returned (default ${DEFAULT_LIMIT})`),
+			}),
+			outputSchema: rulesOutput,
+			list: { fields: ["violations"], renderItem: (violation: RuleViolation) => `- [${violation.rule}] ${describeViolation(violation)}` },
+		},
+		async ({
+			rules,
+			rulesFile,
+			path,
+			limit,
+			graphId,
+			repository
+		}: {
+			rules?: ArchitectureRule[];
+			rulesFile?: string;
+			path?: string;
+			limit: number;
+			graphId?: string;
+			repository?: string;
+		}, { signal }) => {
+			try {
+				if (rulesFile && !acceptsFile) {
+					throw new Error("rulesFile needs a local checkout, which this server does not have; pass rules instead");
+				}
+
+				const target = resolveTarget(config, graphId, repository, selection);
+				const file = rulesFile
+					? checkoutFile(config.WORKSPACE_DIR, rulesFile)
+					: config.RULES_FILE || (acceptsFile ? findRulesFile(config.WORKSPACE_DIR) : undefined);
+				const checked = rules ?? (file ? await loadRulesFile(file) : undefined);
+				if (!checked) {
+					throw new Error(`Provide rules${acceptsFile ? `, a rulesFile, or add ${RULES_FILES[0]} to ${config.WORKSPACE_DIR}` : ""}`);
+				}
+
+				const all = checkRules(await fullGraph(target, signal), checked, path);
+				const violations = all.slice(0, limit);
+				const text = [
+					formatRuleReport(checked, violations, all.length),
+					...(all.length > violations.length ? ["", `${all.length - violations.length} more violation(s) left out; raise limit or narrow path to see them.`] : []),
+				].join("\n");
+
+				return structuredResult(text, {
+					rules: checked.length,
+					violations,
+					total: all.length,
+					truncated: all.length > violations.length,
+				});
+			} catch (error) {
+				logger.error("Error checking architecture rules", { error });
+				return errorResult(error);
+			}
+		}
+	);
+}
@@ -0,0 +1,17 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { GraphBackend } from "../backends/types.js";
+import type { SessionConfig } from "../config.js";
+import type { GraphSelection } from "../selection.js";
+
+/**
+ * Everything a tool module needs to register its tools for one session
+ */
+export type ToolContext = {
+	server: McpServer;
+	config: SessionConfig;
+	backend: GraphBackend;
+	/** Repository label used in tool descriptions */
+	repository: string;
+	/** Graph chosen with select-graph, used when a call passes no graphId */
+	selection: GraphSelection;
+};
@@ -0,0 +1,156 @@
+import { z } from "zod";
+import { DiagramFormat, DiagramGrouping, renderDiagram } from "../diagram.js";
+import { logger } from "../logger.js";
+import { diagramOutput, GraphEdge, GraphNode } from "../schemas.js";
+import { TRAVERSAL_RELATIONS, TraversalRelation, traverseGraph } from "../traversal.js";
+import { createToolSchema, errorResult, resolveTarget, structuredResult } from "../utils.js";
+import type { ToolContext } from "./context.js";
+import { registerTool } from "./register.js";
+
+const DEFAULT_MAX_NODES = 50;
+
+type SubgraphScope = "neighbourhood" | "impact";
+
+export function registerExportSubgraphTool({ server, config, backend, repository, selection }: ToolContext): void {
+	registerTool(
+		server,
+		"export-subgraph",
+		{
+			description: `Render part of the code graph of the repository ${repository} as a diagram, as Mermaid flowchart text or Graphviz DOT, ready to paste into pull requests and design docs. The diagram shows either the neighbourhood of a functionality (what it connects to, a few hops deep) or its impact set (every functionality that depends on it, as in get-usage-dependency-links). Nodes can be grouped by file or folder. The diagram is returned whole rather than in pages, as a page of it would not draw the same graph; use maxNodes to keep it small.`,
+			inputSchema: createToolSchema(config, {
+				name: z
+					.string()
+					.min(1, "name is required")
+					.describe(
+						"The exact name of the functionality the diagram is about. Names are case-sensitive. For methods, include the parent class name as 'ClassName.methodName'. Examples: 'OrderController.create', 'saveUser'"
+					),
+				path: z
+					.string()
+					.optional()
+					.describe(
+						"The origin file path of the functionality. Needed when several functionalities share the name. Examples: 'src/controllers/order.controller.ts', 'global'"
+					),
+				scope: z
+					.enum(["neighbourhood", "impact"])
+					.default("neighbourhood")
+					.describe("'neighbourhood' draws what the functionality connects to, 'impact' draws what depends on it (default 'neighbourhood')"),
+				format: z
+					.enum(["mermaid", "dot"])
+					.default("mermaid")
+					.describe("'mermaid' for a Mermaid flowchart, 'dot' for Graphviz (default 'mermaid')"),
+				depth: z
+					.number()
+					.int()
+					.min(1)
+					.max(5)
+					.default(1)
+					.describe("Hops from the functionality for the neighbourhood scope (1-5, default 1)"),
+				edgeTypes: z
+					.array(z.enum(TRAVERSAL_RELATIONS))
+					.min(1)
+					.optional()
+					.describe("Edge types drawn for the neighbourhood scope: calls, imports, extends, implements (default all)"),
+				groupBy: z
+					.enum(["none", "file", "folder"])
+					.default("none")
+					.describe("Draw nodes inside one box per file or per folder (default 'none')"),
+				maxNodes: z
+					.number()
+					.int()
+					.min(1)
+					.max(500)
+					.default(DEFAULT_MAX_NODES)
+					.describe(`Maximum number of nodes drawn (default ${DEFAULT_MAX_NODES})`),
+				edgeLabels: z
+					.boolean()
+					.default(true)
+					.describe("Label edges with their relation, e.g. calls or imports (default true)"),
+			}),
+			outputSchema: diagramOutput,
+		},
+		async ({
+			name,
+			path,
+			scope,
+			format,
+			depth,
+			edgeTypes,
+			groupBy,
+			maxNodes,
+			edgeLabels,
+			graphId,
+			repository
+		}: {
+			name: string;
+			path?: string;
+			scope: SubgraphScope;
+			format: DiagramFormat;
+			depth: number;
+			edgeTypes?: TraversalRelation[];
+			groupBy: DiagramGrouping;
+			maxNodes: number;
+			edgeLabels: boolean;
+			graphId?: string;
+			repository?: string;
+		}, { signal }) => {
+			try {
+				const target = resolveTarget(config, graphId, repository, selection);
+				const query = { name, path };
+
+				let nodes: GraphNode[];
+				let edges: GraphEdge[];
+				let subjects: string[];
+				let truncated = false;
+				if (scope === "impact") {
+					({ nodes, edges } = await backend.getUsageDependencyLinks(target, query, signal));
+					subjects = nodes
+						.filter(node => node.name === name && (!path || node.path === path))
+						.map(node => node.id);
+				} else {
+					const result = await traverseGraph(
+						backend,
+						target,
+						query,
+						{ maxDepth: depth, direction: "both", relations: edgeTypes ?? TRAVERSAL_RELATIONS, maxNodes },
+						signal,
+					);
+					({ edges, truncated } = result);
+					nodes = result.nodes.map(({ depth: _depth, ...node }) => node);
+					subjects = result.nodes.filter(node => node.depth === 0).map(node => node.id);
+				}
+
+				if (!nodes.length) {
+					return structuredResult(`No ${scope === "impact" ? "dependency" : "connection"} data found for '${name}'`, {
+						format,
+						nodes: [],
+						edges: [],
+						truncated: false,
+					});
+				}
+
+				// Keep the subject nodes when cutting the diagram down to size
+				const ordered = [
+					...nodes.filter(node => subjects.includes(node.id)),
+					...nodes.filter(node => !subjects.includes(node.id)),
+				];
+				const drawn = ordered.slice(0, maxNodes);
+				const drawnIds = new Set(drawn.map(node => node.id));
+				const drawnEdges = edges.filter(edge => drawnIds.has(edge.source) && drawnIds.has(edge.target));
+				truncated ||= ordered.length > maxNodes;
+
+				const diagram = renderDiagram(drawn, drawnEdges, { format, groupBy, edgeLabels, highlight: subjects });
+				const text = [
+					format === "mermaid" ? "```mermaid" : "```dot",
+					diagram,
+					"```",
+					...(truncated ? ["", `Showing the first ${drawn.length} nodes; raise maxNodes to draw the rest.`] : []),
+				].join("\n");
+
+				return structuredResult(text, { format, diagram, nodes: drawn, edges: drawnEdges, truncated });
+			} catch (error) {
+				logger.error("Error exporting subgraph", { error });
+				return errorResult(error);
+			}
+		}
+	);
+}
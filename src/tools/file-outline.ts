@@ -0,0 +1,53 @@
+import { z } from "zod";
+import { logger } from "../logger.js";
+import { OutlineSymbol, outlineOutput } from "../schemas.js";
+import { createToolSchema, errorResult, resolveTarget, structuredResult } from "../utils.js";
+import type { ToolContext } from "./context.js";
+import { registerListTool } from "./register.js";
+
+// One symbol of a page, with its file since a page no longer nests symbols under it
+const describeSymbol = (symbol: OutlineSymbol): string => {
+	const lines = symbol.startLine === undefined ? "" : `, lines ${symbol.startLine}-${symbol.endLine}`;
+	const line = `- ${symbol.kind} ${symbol.name} (${symbol.path}${lines}): ${symbol.signature}`;
+	return symbol.doc ? `${line}\n  ${symbol.doc}` : line;
+};
+
+export function registerFileOutlineTool({ server, config, backend, repository, selection }: ToolContext): void {
+	const fileOutline = backend.fileOutline?.bind(backend);
+	if (!fileOutline) return;
+
+	registerListTool(
+		server,
+		"file-outline",
+		{
+			description: `List the symbols declared in a file or folder of the repository ${repository}: classes, methods, functions, interfaces and exported constants, with kind, signature, line range and doc comment summary, nested by containment. Use it after folder-tree-structure to find the exact 'ClassName.methodName' names and paths to pass to get-code, instead of guessing them.`,
+			inputSchema: createToolSchema(config, {
+				path: z
+					.string()
+					.min(1, "path is required")
+					.describe("A file or folder path from folder-tree-structure. Examples: 'src/services/user.service.ts', 'src/services'"),
+			}),
+			outputSchema: outlineOutput,
+			list: { fields: ["symbols"], renderItem: describeSymbol },
+		},
+		async ({
+			path,
+			graphId,
+			repository
+		}: {
+			path: string;
+			graphId?: string;
+			repository?: string;
+		}, { signal }) => {
+			try {
+				const target = resolveTarget(config, graphId, repository, selection);
+				const { text, symbols } = await fileOutline(target, path, signal);
+
+				return structuredResult(text || `No symbols found under '${path}'`, { symbols });
+			} catch (error) {
+				logger.error("Error building file outline", { error });
+				return errorResult(error);
+			}
+		}
+	);
+}
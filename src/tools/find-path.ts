@@ -0,0 +1,130 @@
+import { z } from "zod";
+import { logger } from "../logger.js";
+import { pathsOutput } from "../schemas.js";
+import { GraphPath, TRAVERSAL_RELATIONS, TraversalRelation, findShortestPaths } from "../traversal.js";
+import { createToolSchema, errorResult, resolveTarget, structuredResult } from "../utils.js";
+import type { ToolContext } from "./context.js";
+import { registerListTool } from "./register.js";
+
+const DEFAULT_MAX_NODES = 500;
+
+const describePath = ({ nodes, edges }: GraphPath): string =>
+	`${nodes[0].id}${edges.map(edge => ` -[${edge.relation}]-> ${edge.target}`).join("")}`;
+
+export function registerFindPathTool({ server, config, backend, repository, selection }: ToolContext): void {
+	registerListTool(
+		server,
+		"find-path",
+		{
+			description: `Find how two functionalities of the repository ${repository} are connected: returns the shortest path(s) of calls, imports, extends or implements edges leading from the first functionality to the second, with the edge type of every hop. Use it for questions like "how does this controller end up reaching this database function". If no path is found, try swapping the two functionalities.`,
+			inputSchema: createToolSchema(config, {
+				fromName: z
+					.string()
+					.min(1, "fromName is required")
+					.describe(
+						"The exact name of the functionality the path starts at. Names are case-sensitive. For methods, include the parent class name as 'ClassName.methodName'. Example: 'OrderController.create'"
+					),
+				fromPath: z
+					.string()
+					.optional()
+					.describe("The origin file path of the start functionality. Example: 'src/controllers/order.controller.ts'"),
+				toName: z
+					.string()
+					.min(1, "toName is required")
+					.describe("The exact name of the functionality the path ends at. Example: 'OrderRepository.save'"),
+				toPath: z
+					.string()
+					.optional()
+					.describe("The origin file path of the end functionality. Example: 'src/repositories/order.repository.ts'"),
+				maxDepth: z
+					.number()
+					.int()
+					.min(1)
+					.max(10)
+					.default(6)
+					.describe("Maximum number of hops in a path (1-10, default 6)"),
+				maxPaths: z
+					.number()
+					.int()
+					.min(1)
+					.max(20)
+					.default(1)
+					.describe("Maximum number of alternative shortest paths to return (default 1)"),
+				edgeTypes: z
+					.array(z.enum(TRAVERSAL_RELATIONS))
+					.min(1)
+					.optional()
+					.describe("Edge types a path may follow: calls, imports, extends, implements (default all)"),
+				maxNodes: z
+					.number()
+					.int()
+					.min(1)
+					.max(5000)
+					.default(DEFAULT_MAX_NODES)
+					.describe(`Give up after reaching this many nodes without a path (default ${DEFAULT_MAX_NODES})`),
+			}),
+			outputSchema: pathsOutput,
+			list: { fields: ["paths"], renderItem: (path: GraphPath) => `- ${describePath(path)}` },
+		},
+		async ({
+			fromName,
+			fromPath,
+			toName,
+			toPath,
+			maxDepth,
+			maxPaths,
+			edgeTypes,
+			maxNodes,
+			graphId,
+			repository
+		}: {
+			fromName: string;
+			fromPath?: string;
+			toName: string;
+			toPath?: string;
+			maxDepth: number;
+			maxPaths: number;
+			edgeTypes?: TraversalRelation[];
+			maxNodes: number;
+			graphId?: string;
+			repository?: string;
+		}, { signal }) => {
+			try {
+				const target = resolveTarget(config, graphId, repository, selection);
+				const relations = edgeTypes ?? TRAVERSAL_RELATIONS;
+				const result = await findShortestPaths(
+					backend,
+					target,
+					{ name: fromName, path: fromPath },
+					{ name: toName, path: toPath },
+					{ maxDepth, relations, maxPaths, maxNodes },
+					signal,
+				);
+
+				const from = `${fromName}${fromPath ? ` (${fromPath})` : ""}`;
+				const to = `${toName}${toPath ? ` (${toPath})` : ""}`;
+
+				if (!result.explored) {
+					return structuredResult(`No functionality named '${fromName}' was found`, { ...result });
+				}
+				if (!result.paths.length) {
+					const reason = result.truncated
+						? `stopped after ${maxNodes} nodes; narrow the edge types or raise maxNodes`
+						: `searched ${result.explored} node(s) up to ${maxDepth} hops`;
+					return structuredResult(`No path from ${from} to ${to} (${reason})`, { ...result });
+				}
+
+				const hops = result.paths[0].edges.length;
+				const text = [
+					`Shortest path${result.paths.length > 1 ? "s" : ""} from ${from} to ${to}: ${hops} hop${hops === 1 ? "" : "s"}`,
+					...result.paths.map((path, index) => `${index + 1}. ${describePath(path)}`),
+				].join("\n");
+
+				return structuredResult(text, { ...result });
+			} catch (error) {
+				logger.error("Error finding path", { error });
+				return errorResult(error);
+			}
+		}
+	);
+}
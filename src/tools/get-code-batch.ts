@@ -0,0 +1,150 @@
+import { z } from "zod";
+import type { NodeQuery } from "../client.js";
+import { logger } from "../logger.js";
+import { cutCode, renderNode } from "../paging.js";
+import { describeCandidates, resolutionNote, resolveNodeLookup } from "../resolve.js";
+import { codeBatchOutput, GraphNode } from "../schemas.js";
+import { createToolSchema, errorResult, mapWithConcurrency, resolveTarget, structuredResult, toolError } from "../utils.js";
+import type { ToolContext } from "./context.js";
+import { registerListTool } from "./register.js";
+
+const MAX_ITEMS = 50;
+// Concurrent get-code lookups of one batch
+const BATCH_CONCURRENCY = 5;
+
+type BatchItem = NodeQuery & { repository?: string };
+
+type BatchOutcome = BatchItem & {
+	text: string;
+	nodes?: GraphNode[];
+	candidates?: GraphNode[];
+	resolved?: NodeQuery;
+	truncated?: boolean;
+	error?: { kind: string; message: string };
+};
+
+// An item of a page, rebuilt from its structured outcome
+const describeItem = ({ name, path, repository, nodes, candidates, error }: Omit<BatchOutcome, "text">, summary: boolean): string => [
+	`## ${name}${path ? ` (${path})` : ""}${repository ? ` [${repository}]` : ""}`,
+	...(error ? [`Error (${error.kind}): ${error.message}`] : []),
+	...(candidates?.length ? ["Candidates:", ...candidates.map(node => renderNode(node, true))] : []),
+	...(nodes ?? []).map(node => renderNode(node, summary)),
+].join("\n");
+
+export function registerGetCodeBatchTool({ server, config, backend, repository, selection }: ToolContext): void {
+	const itemSchema = z.object({
+		name: z
+			.string()
+			.min(1, "name is required")
+			.describe("The name of the functionality, as for get-code. For methods use 'ClassName.methodName'"),
+		path: z
+			.string()
+			.optional()
+			.describe("The origin file path of the functionality, needed when several share the name"),
+		repository: z
+			.string()
+			.min(1)
+			.optional()
+			.describe(config.IS_MULTI_REPO
+				? `Repository of this item when it differs from the call's repository. Available options are: ${config.REPO_LIST.join(", ")}`
+				: "Not available on this server, which serves a single repository"),
+	});
+
+	registerListTool(
+		server,
+		"get-code-batch",
+		{
+			description: `Get the code of several functionalities of the repository ${repository} in one call, e.g. every entity involved in a feature. Each item is looked up like get-code (including resolution of names that match nothing) and answered on its own: a failing item reports its error without failing the others. Use maxChars to cap the total size of the returned code. Prefer this over repeated get-code calls.`,
+			inputSchema: createToolSchema(config, {
+				items: z
+					.array(itemSchema)
+					.min(1, "At least one item is required")
+					.max(MAX_ITEMS, `At most ${MAX_ITEMS} items per call`)
+					.describe(`The functionalities to fetch (1-${MAX_ITEMS}), answered in the same order`),
+				maxChars: z
+					.number()
+					.int()
+					.min(1)
+					.optional()
+					.describe("Total characters of code returned across all items; code beyond it is cut (default no limit)"),
+			}),
+			outputSchema: codeBatchOutput,
+			list: { fields: ["items"], renderItem: describeItem },
+		},
+		async ({
+			items,
+			maxChars,
+			graphId,
+			repository
+		}: {
+			items: BatchItem[];
+			maxChars?: number;
+			graphId?: string;
+			repository?: string;
+		}, { signal }) => {
+			try {
+				if (!config.IS_MULTI_REPO && items.some(item => item.repository)) {
+					throw new Error("Item repositories need several repositories configured; this server serves a single one");
+				}
+
+				const errors: unknown[] = [];
+				const outcomes = await mapWithConcurrency(items, BATCH_CONCURRENCY, async (item, index): Promise<BatchOutcome> => {
+					const query = { name: item.name, path: item.path };
+					try {
+						const target = resolveTarget(config, graphId, item.repository ?? repository, selection);
+						const lookup = await resolveNodeLookup(backend, target, query, resolved => backend.getCode(target, resolved, signal), signal);
+						if ("candidates" in lookup) {
+							return { ...item, text: describeCandidates(query, lookup.candidates), candidates: lookup.candidates };
+						}
+						const { text, nodes } = lookup.result;
+						if (!text && !nodes.length) {
+							return { ...item, text: "No code found", nodes };
+						}
+						return { ...item, text: resolutionNote(query, lookup.resolved) + (text ?? ""), nodes, resolved: lookup.resolved };
+					} catch (error) {
+						logger.warn("Batch item failed", { name: item.name, path: item.path, error });
+						errors[index] = error;
+						const failure = toolError(error);
+						return { ...item, text: `Error (${failure.kind}): ${failure.message}`, error: failure };
+					}
+				});
+				// Fail the call only when no item could be fetched, e.g. for an unknown graph
+				if (outcomes.every(outcome => outcome.error)) {
+					throw errors[0];
+				}
+
+				// Spend the size budget on code, in request order and node by node
+				const budget = { left: maxChars ?? Infinity };
+				for (const outcome of outcomes) {
+					if (!outcome.nodes?.length) continue;
+					const nodes = cutCode(outcome.nodes, budget) as GraphNode[];
+					if (nodes.every((node, index) => node.code === outcome.nodes?.[index].code)) continue;
+					// Show the cut nodes, so that the text holds the same code as the structured content
+					outcome.nodes = nodes;
+					outcome.text = resolutionNote(outcome, outcome.resolved) + nodes.map(node => renderNode(node, false)).join("\n");
+					outcome.truncated = true;
+				}
+				const truncated = outcomes.some(outcome => outcome.truncated);
+
+				const found = outcomes.filter(outcome => outcome.nodes?.length).length;
+				const text = [
+					`Fetched ${found} of ${outcomes.length} item(s)`,
+					...outcomes.flatMap(({ name, path, repository, text }) => [
+						"",
+						`## ${name}${path ? ` (${path})` : ""}${repository ? ` [${repository}]` : ""}`,
+						text,
+					]),
+					...(truncated ? ["", "Some code was cut to respect maxChars; fetch those items on their own to see all of it."] : []),
+				].join("\n");
+
+				return structuredResult(text, {
+					items: outcomes.map(({ text: _text, ...outcome }) => outcome),
+					truncated,
+				});
+			} catch (error) {
+				logger.error("Error fetching code batch", { error });
+				return errorResult(error);
+			}
+		}
+	);
+}
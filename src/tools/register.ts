@@ -0,0 +1,85 @@
+import type { McpServer, RegisteredTool, ToolCallback } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type { CallToolResult, ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+import type { z, ZodRawShape, ZodTypeAny } from "zod";
+import { instrumentTool } from "../metrics.js";
+import { ListRendering, pageSchema, pagingShape, shapeResult } from "../paging.js";
+import { errorResult } from "../utils.js";
+
+export type ToolConfig<InputArgs extends ZodRawShape, OutputArgs extends ZodRawShape> = {
+	description: string;
+	inputSchema: InputArgs;
+	outputSchema: OutputArgs;
+};
+
+export type ToolHandler<InputArgs extends ZodRawShape> = (
+	args: z.objectOutputType<InputArgs, ZodTypeAny>,
+	extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+) => Promise<CallToolResult>;
+
+/**
+ * Register a tool on a session's server, counting and timing its calls.
+ * Every tool is registered through this (or registerListTool) instead of
+ * server.registerTool.
+ */
+export function registerTool<InputArgs extends ZodRawShape, OutputArgs extends ZodRawShape>(
+	server: McpServer,
+	name: string,
+	config: ToolConfig<InputArgs, OutputArgs>,
+	handler: ToolHandler<InputArgs>,
+): RegisteredTool {
+	// ToolCallback is conditional on the schema type, which stays unresolved for a generic InputArgs
+	return server.registerTool(name, config, instrumentTool(name, handler) as ToolCallback<InputArgs>);
+}
+
+// Full results of paged calls kept per list tool of a session, so that following a cursor does not fetch them again
+const KEPT_RESULTS = 20;
+const KEPT_RESULT_TTL_MS = 10 * 60 * 1000;
+
+/**
+ * Register a tool returning a list, with the paging arguments on top of its
+ * own: maxTokens, maxItems, cursor and summary. Calls without them are
+ * answered exactly as the handler answers; otherwise one page of the list
+ * named in `list.fields` is returned, rendered with `list.renderItem`. Pages
+ * after the first are cut from the result fetched for an earlier page with
+ * the same arguments, while it is kept.
+ */
+export function registerListTool<InputArgs extends ZodRawShape, OutputArgs extends ZodRawShape, T = unknown>(
+	server: McpServer,
+	name: string,
+	{ list, ...config }: ToolConfig<InputArgs, OutputArgs> & { list: ListRendering<T, z.objectOutputType<OutputArgs, ZodTypeAny>> },
+	handler: ToolHandler<InputArgs>,
+): RegisteredTool {
+	const kept = new Map<string, { expiresAt: number; result: CallToolResult }>();
+
+	return registerTool(
+		server,
+		name,
+		{
+			...config,
+			inputSchema: { ...config.inputSchema, ...pagingShape },
+			outputSchema: { ...config.outputSchema, page: pageSchema.optional() },
+		},
+		async ({ maxTokens, maxItems, cursor, summary, ...args }, extra) => {
+			// What is left once the paging arguments are taken out is the tool's own arguments
+			const toolArgs = args as z.objectOutputType<InputArgs, ZodTypeAny>;
+			if (maxTokens === undefined && maxItems === undefined && cursor === undefined && !summary) {
+				return handler(toolArgs, extra);
+			}
+
+			const key = JSON.stringify(args);
+			const earlier = cursor === undefined ? undefined : kept.get(key);
+			const result = earlier && earlier.expiresAt > Date.now() ? earlier.result : await handler(toolArgs, extra);
+			kept.delete(key);
+			if (!result.isError) {
+				kept.set(key, { expiresAt: Date.now() + KEPT_RESULT_TTL_MS, result });
+				if (kept.size > KEPT_RESULTS) kept.delete(kept.keys().next().value!);
+			}
+			try {
+				return shapeResult(result, { maxTokens, maxItems, cursor, summary }, list);
+			} catch (error) {
+				return errorResult(error);
+			}
+		},
+	);
+}
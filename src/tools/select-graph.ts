@@ -0,0 +1,74 @@
+import { z } from "zod";
+import { logger } from "../logger.js";
+import { selectedGraphOutput } from "../schemas.js";
+import { describeGraph, findGraph } from "../selection.js";
+import { errorResult, structuredResult } from "../utils.js";
+import type { ToolContext } from "./context.js";
+import { registerTool } from "./register.js";
+
+/**
+ * select-graph and current-graph, for sessions without a configured graph.
+ * The selection lasts for the session and only affects calls without a graphId.
+ */
+export function registerGraphSelectionTools({ server, backend, selection }: ToolContext): void {
+	const listGraphs = backend.listGraphs?.bind(backend);
+	if (!listGraphs) return;
+
+	registerTool(
+		server,
+		"select-graph",
+		{
+			description: "Choose the graph the other tools query for the rest of this session, so their graphId argument can be left out. Look the graph up by repository name (and branch, when the repository has several graphs) or by its ID from list-graphs. A graphId passed to another tool still overrides the selection.",
+			inputSchema: {
+				name: z
+					.string()
+					.min(1)
+					.optional()
+					.describe("Repository name, as 'org/repo' or just 'repo' (case-insensitive). Examples: 'acme/shop', 'shop'"),
+				branch: z
+					.string()
+					.min(1)
+					.optional()
+					.describe("Branch of the repository, needed when it has graphs for several branches. Example: 'main'"),
+				graphId: z
+					.string()
+					.min(1)
+					.optional()
+					.describe("The ID of the graph, instead of name and branch"),
+			},
+			outputSchema: selectedGraphOutput,
+		},
+		async ({ name, branch, graphId }: { name?: string; branch?: string; graphId?: string }, { signal }) => {
+			try {
+				if (!name && !graphId) {
+					throw new Error("Provide the repository name or the graphId of the graph to select");
+				}
+
+				const graph = findGraph(await listGraphs(signal), { graphId, name, branch });
+				selection.select(graph);
+				const message = `Selected graph ${describeGraph(graph)}`;
+				return structuredResult(message, { graph, message });
+			} catch (error) {
+				logger.error("Error selecting graph", { error });
+				return errorResult(error);
+			}
+		}
+	);
+
+	registerTool(
+		server,
+		"current-graph",
+		{
+			description: "Show the graph selected with select-graph, which tools query when called without a graphId.",
+			inputSchema: {},
+			outputSchema: selectedGraphOutput,
+		},
+		async () => {
+			const graph = selection.current ?? null;
+			const message = graph
+				? `Current graph: ${describeGraph(graph)}`
+				: "No graph selected. Call select-graph, or pass graphId to each tool";
+			return structuredResult(message, { graph, message });
+		}
+	);
+}
@@ -0,0 +1,118 @@
+import { z } from "zod";
+import { logger } from "../logger.js";
+import { traversalOutput } from "../schemas.js";
+import { TRAVERSAL_RELATIONS, TraversalDirection, TraversalRelation, TraversedNode, traverseGraph } from "../traversal.js";
+import { createToolSchema, errorResult, resolveTarget, structuredResult } from "../utils.js";
+import type { ToolContext } from "./context.js";
+import { registerListTool } from "./register.js";
+
+const DEFAULT_MAX_NODES = 200;
+
+export function registerTraverseGraphTool({ server, config, backend, repository, selection }: ToolContext): void {
+	registerListTool(
+		server,
+		"traverse-graph",
+		{
+			description: `Walk the code graph of the repository ${repository} several hops away from a functionality and return the reached subgraph. Choose the direction (callees: what it calls, imports, extends or implements; callers: what reaches it), a maximum depth and the edge types to follow. Use this instead of chaining find-direct-connections calls, e.g. "what does this handler transitively call, 3 levels deep" or "who reaches this database function".`,
+			inputSchema: createToolSchema(config, {
+				name: z
+					.string()
+					.min(1, "name is required")
+					.describe(
+						"The exact name of the functionality to start from. Names are case-sensitive. For methods, include the parent class name as 'ClassName.methodName'. Examples: 'OrderController.create', 'saveUser'"
+					),
+				path: z
+					.string()
+					.optional()
+					.describe(
+						"The origin file path of the start functionality. Needed when several functionalities share the name. Examples: 'src/controllers/order.controller.ts', 'global'"
+					),
+				maxDepth: z
+					.number()
+					.int()
+					.min(1)
+					.max(10)
+					.default(2)
+					.describe("Maximum number of hops from the start node (1-10, default 2)"),
+				direction: z
+					.enum(["callers", "callees", "both"])
+					.default("callees")
+					.describe("'callees' follows outgoing edges, 'callers' follows incoming edges, 'both' follows both (default 'callees')"),
+				edgeTypes: z
+					.array(z.enum(TRAVERSAL_RELATIONS))
+					.min(1)
+					.optional()
+					.describe("Edge types to follow: calls, imports, extends, implements (default all)"),
+				maxNodes: z
+					.number()
+					.int()
+					.min(1)
+					.max(1000)
+					.default(DEFAULT_MAX_NODES)
+					.describe(`Stop once this many nodes have been reached (default ${DEFAULT_MAX_NODES})`),
+			}),
+			outputSchema: traversalOutput,
+			list: { fields: ["nodes"], renderItem: (node: TraversedNode) => `- ${node.id} (depth ${node.depth})` },
+		},
+		async ({
+			name,
+			path,
+			maxDepth,
+			direction,
+			edgeTypes,
+			maxNodes,
+			graphId,
+			repository
+		}: {
+			name: string;
+			path?: string;
+			maxDepth: number;
+			direction: TraversalDirection;
+			edgeTypes?: TraversalRelation[];
+			maxNodes: number;
+			graphId?: string;
+			repository?: string;
+		}, { signal }) => {
+			try {
+				const target = resolveTarget(config, graphId, repository, selection);
+				const relations = edgeTypes ?? TRAVERSAL_RELATIONS;
+				const result = await traverseGraph(
+					backend,
+					target,
+					{ name, path },
+					{ maxDepth, direction, relations, maxNodes },
+					signal,
+				);
+
+				if (!result.nodes.length) {
+					return structuredResult(`No functionality named '${name}' was found`, { ...result });
+				}
+
+				const byDepth = new Map<number, string[]>();
+				for (const node of result.nodes) {
+					byDepth.set(node.depth, [...(byDepth.get(node.depth) ?? []), node.id]);
+				}
+
+				const text = [
+					`Traversal from ${name}${path ? ` (${path})` : ""}: direction ${direction}, depth ${maxDepth}, edges ${relations.join(", ")}`,
+					...[...byDepth.entries()].flatMap(([depth, ids]) => [
+						"",
+						depth === 0 ? "Start:" : `Depth ${depth}:`,
+						...ids.map(id => `- ${id}`),
+					]),
+					"",
+					"Edges:",
+					...(result.edges.length
+						? result.edges.map(edge => `- ${edge.source} -[${edge.relation}]-> ${edge.target}`)
+						: ["- (none)"]),
+					...(result.truncated ? ["", `Stopped after ${maxNodes} nodes; narrow the depth or edge types to see the rest.`] : []),
+				].join("\n");
+
+				return structuredResult(text, { ...result });
+			} catch (error) {
+				logger.error("Error traversing graph", { error });
+				return errorResult(error);
+			}
+		}
+	);
+}
@@ -0,0 +1,233 @@
+import type { GraphBackend } from "./backends/types.js";
+import type { GraphTarget, NodeQuery } from "./client.js";
+import type { GraphEdge, GraphNode } from "./schemas.js";
+import { mapWithConcurrency } from "./utils.js";
+
+export const TRAVERSAL_RELATIONS = ["calls", "imports", "extends", "implements"] as const;
+
+export type TraversalRelation = typeof TRAVERSAL_RELATIONS[number];
+
+/**
+ * callees follows edges out of a node (what it calls, imports, extends);
+ * callers follows edges into it (who calls, imports or extends it)
+ */
+export type TraversalDirection = "callers" | "callees" | "both";
+
+export type TraversalOptions = {
+	maxDepth: number;
+	direction: TraversalDirection;
+	relations: readonly TraversalRelation[];
+	maxNodes: number;
+};
+
+export type TraversedNode = GraphNode & {
+	depth: number;
+};
+
+export type TraversalResult = {
+	nodes: TraversedNode[];
+	edges: GraphEdge[];
+	/** True when the node limit stopped the traversal early */
+	truncated: boolean;
+};
+
+// Concurrent neighbour lookups per traversal level
+const LOOKUP_CONCURRENCY = 5;
+
+/**
+ * Whether an edge relation passes a relation filter. Generic usages reported
+ * by the CodeGPT API ("uses") count as calls.
+ */
+export const matchesRelation = (relation: string, relations: readonly string[]): boolean =>
+	relations.includes(relation) || (relation === "uses" && relations.includes("calls"));
+
+// Whether a node is the one a query names (by name, and path when given)
+const matchesQuery = (node: GraphNode, query: NodeQuery): boolean =>
+	node.name === query.name && (!query.path || node.path === query.path);
+
+/**
+ * The subject nodes of a neighbourhood lookup: the returned nodes matching the
+ * queried name (and path, when given)
+ */
+const subjectIds = (nodes: GraphNode[], query: NodeQuery): Set<string> =>
+	new Set(nodes.filter(node => matchesQuery(node, query)).map(node => node.id));
+
+/**
+ * Direct neighbours of one node, filtered by direction and relation
+ */
+export const neighbourhood = async (
+	backend: GraphBackend,
+	target: GraphTarget,
+	query: NodeQuery,
+	direction: TraversalDirection,
+	relations: readonly string[],
+	signal?: AbortSignal,
+): Promise<{ subjects: GraphNode[]; neighbours: GraphNode[]; edges: GraphEdge[] }> => {
+	const { nodes, edges } = await backend.findDirectConnections(target, query, signal);
+	const subjects = subjectIds(nodes, query);
+	const byId = new Map(nodes.map(node => [node.id, node]));
+
+	const kept = edges.filter(edge => {
+		if (!matchesRelation(edge.relation, relations)) return false;
+		const outgoing = subjects.has(edge.source);
+		const incoming = subjects.has(edge.target);
+		return direction === "both"
+			? outgoing || incoming
+			: direction === "callees" ? outgoing : incoming;
+	});
+
+	const neighbourIds = new Set(kept.flatMap(edge => [edge.source, edge.target]).filter(id => !subjects.has(id)));
+	return {
+		subjects: [...subjects].map(id => byId.get(id)!),
+		neighbours: [...neighbourIds].map(id => byId.get(id) ?? { id, name: id.split("::").pop()!, path: id.split("::")[0] }),
+		edges: kept,
+	};
+};
+
+/**
+ * Breadth-first traversal from a start node up to `maxDepth` hops, returning
+ * the visited subgraph with the depth at which each node was first reached
+ */
+export const traverseGraph = async (
+	backend: GraphBackend,
+	target: GraphTarget,
+	start: NodeQuery,
+	options: TraversalOptions,
+	signal?: AbortSignal,
+): Promise<TraversalResult> => {
+	const nodes = new Map<string, TraversedNode>();
+	const edges = new Map<string, GraphEdge>();
+	let truncated = false;
+
+	let frontier: NodeQuery[] = [start];
+	for (let depth = 0; depth < options.maxDepth && frontier.length && !truncated; depth++) {
+		const lookups = await mapWithConcurrency(frontier, LOOKUP_CONCURRENCY, query =>
+			neighbourhood(backend, target, query, options.direction, options.relations, signal)
+		);
+
+		const next: NodeQuery[] = [];
+		for (const { subjects, neighbours, edges: found } of lookups) {
+			if (depth === 0) {
+				subjects.forEach(node => nodes.set(node.id, { ...node, depth: 0 }));
+			}
+			for (const edge of found) {
+				edges.set(`${edge.source}\n${edge.target}\n${edge.relation}`, edge);
+			}
+			for (const node of neighbours) {
+				if (nodes.has(node.id)) continue;
+				if (nodes.size >= options.maxNodes) {
+					truncated = true;
+					break;
+				}
+				nodes.set(node.id, { ...node, depth: depth + 1 });
+				next.push({ name: node.name, path: node.path || undefined });
+			}
+		}
+		frontier = next;
+	}
+
+	// Drop edges whose endpoints were cut off by the node limit
+	const keptEdges = [...edges.values()].filter(edge => nodes.has(edge.source) && nodes.has(edge.target));
+	return { nodes: [...nodes.values()], edges: keptEdges, truncated };
+};
+
+export type GraphPath = {
+	nodes: GraphNode[];
+	edges: GraphEdge[];
+};
+
+export type PathSearchOptions = {
+	maxDepth: number;
+	relations: readonly TraversalRelation[];
+	maxPaths: number;
+	maxNodes: number;
+};
+
+export type PathSearchResult = {
+	paths: GraphPath[];
+	/** Number of nodes reached while searching */
+	explored: number;
+	/** True when the node limit stopped the search before a path was found */
+	truncated: boolean;
+};
+
+/**
+ * Shortest paths following outgoing edges from `from` to `to`. Searches
+ * breadth-first level by level, keeping every predecessor edge that reaches
+ * a node at its shortest distance, then enumerates up to `maxPaths` of the
+ * equally short paths.
+ */
+export const findShortestPaths = async (
+	backend: GraphBackend,
+	target: GraphTarget,
+	from: NodeQuery,
+	to: NodeQuery,
+	options: PathSearchOptions,
+	signal?: AbortSignal,
+): Promise<PathSearchResult> => {
+	const nodes = new Map<string, GraphNode>();
+	const distance = new Map<string, number>();
+	const predecessors = new Map<string, GraphEdge[]>();
+	const found: string[] = [];
+	let truncated = false;
+
+	let frontier: NodeQuery[] = [from];
+	for (let depth = 0; depth < options.maxDepth && frontier.length && !found.length; depth++) {
+		const lookups = await mapWithConcurrency(frontier, LOOKUP_CONCURRENCY, query =>
+			neighbourhood(backend, target, query, "callees", options.relations, signal)
+		);
+
+		const next: NodeQuery[] = [];
+		for (const { subjects, neighbours, edges } of lookups) {
+			if (depth === 0) {
+				for (const node of subjects) {
+					nodes.set(node.id, node);
+					distance.set(node.id, 0);
+				}
+			}
+			for (const node of [...subjects, ...neighbours]) {
+				if (!nodes.has(node.id)) nodes.set(node.id, node);
+			}
+
+			for (const edge of edges) {
+				const known = distance.get(edge.target);
+				if (known === undefined) {
+					if (distance.size >= options.maxNodes) {
+						truncated = true;
+						continue;
+					}
+					distance.set(edge.target, depth + 1);
+					predecessors.set(edge.target, [edge]);
+					const node = nodes.get(edge.target)!;
+					if (matchesQuery(node, to)) {
+						found.push(edge.target);
+					} else {
+						next.push({ name: node.name, path: node.path || undefined });
+					}
+				} else if (known === depth + 1) {
+					predecessors.get(edge.target)!.push(edge);
+				}
+			}
+		}
+		frontier = next;
+	}
+
+	// Walk predecessor edges back to the start, depth first, until enough paths
+	const paths: GraphPath[] = [];
+	const walk = (id: string, suffix: GraphEdge[]) => {
+		if (paths.length >= options.maxPaths) return;
+		if (distance.get(id) === 0) {
+			paths.push({
+				nodes: [id, ...suffix.map(edge => edge.target)].map(nodeId => nodes.get(nodeId)!),
+				edges: suffix,
+			});
+			return;
+		}
+		for (const edge of predecessors.get(id) ?? []) {
+			walk(edge.source, [edge, ...suffix]);
+		}
+	};
+	found.forEach(id => walk(id, []));
+
+	return { paths, explored: distance.size, truncated: truncated && !paths.length };
+};
@@ -1,47 +1,124 @@
 import { z } from "zod";
-import { config } from "./config.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import type { SessionConfig } from "./config.js";
+import { CodeGPTApiError, GraphTarget } from "./client.js";
+import type { GraphSelection } from "./selection.js";
 
-// Helper function to get the graph ID
-const getGraphId = (providedGraphId?: string): string | null => {
-    if (config.CODEGPT_REPO_URL || config.IS_MULTI_REPO) {
+// Helper function to get the graph ID: the configured graph, else the one passed in the call, else the selected one
+const getGraphId = (config: SessionConfig, providedGraphId?: string, selection?: GraphSelection): string | null => {
+    if (config.CODEGPT_REPO_URL || config.IS_MULTI_REPO || config.LOCAL_PATH) {
         return null
     }
     if (config.CODEGPT_GRAPH_ID) {
         return config.CODEGPT_GRAPH_ID;
     }
-    if (!providedGraphId) {
-        throw new Error("Graph ID is required. Either set config.CODEGPT_GRAPH_ID environment variable or provide graphId parameter.");
+    const graphId = providedGraphId || selection?.graphId;
+    if (!graphId) {
+        throw new Error("Graph ID is required. Either select a graph with select-graph, set config.CODEGPT_GRAPH_ID environment variable or provide graphId parameter.");
     }
-    return providedGraphId;
+    return graphId;
 };
 
-const createToolSchema = <T extends Record<string, any>>(baseSchema: T) => {
-  const hasRepoAccess = config.CODEGPT_GRAPH_ID || config.CODEGPT_REPO_URL || config.IS_MULTI_REPO;
+/**
+ * Add the graph and repository arguments a session needs to a tool's input
+ * schema. With `multiRepository`, the repository argument also accepts a list
+ * of repositories or `*` for all of them.
+ */
+const createToolSchema = <T extends Record<string, any>>(
+  config: SessionConfig,
+  baseSchema: T,
+  { multiRepository = false }: { multiRepository?: boolean } = {},
+) => {
+  const hasRepoAccess = config.CODEGPT_GRAPH_ID || config.CODEGPT_REPO_URL || config.IS_MULTI_REPO || config.LOCAL_PATH;
   
   let schema = hasRepoAccess ? baseSchema : {
     ...baseSchema,
     graphId: z
       .string()
       .min(1, "Graph ID is required")
-      .describe("The ID of the graph to query")
+      .optional()
+      .describe("The ID of the graph to query. Defaults to the graph chosen with select-graph")
   };
 
   if (config.IS_MULTI_REPO) {
     const repoList = config.REPO_LIST.join(", ");
     schema = {
       ...schema,
-      repository: z
-        .string()
-        .min(1, "Repository name is required")
-        .describe(
-          `The repository to query from the available repositories. Format is: org/repo. Available options are: ${repoList}`
-        ),
+      repository: multiRepository
+        ? z
+          .union([
+            z.string().min(1, "Repository name is required"),
+            z.array(z.string().min(1)).min(1, "At least one repository is required"),
+          ])
+          .describe(
+            `The repository to query from the available repositories, a list of them, or '*' to query all of them at once. Format is: org/repo. Available options are: ${repoList}`
+          )
+        : z
+          .string()
+          .min(1, "Repository name is required")
+          .describe(
+            `The repository to query from the available repositories. Format is: org/repo. Available options are: ${repoList}`
+          ),
     };
   }
 
   return schema;
 };
 
+// Resolve which graph or repository a tool call should target
+const resolveTarget = (config: SessionConfig, graphId?: string, repository?: string, selection?: GraphSelection): GraphTarget => ({
+    graphId: getGraphId(config, graphId, selection),
+    repoUrl: config.IS_MULTI_REPO ? repository : config.CODEGPT_REPO_URL,
+});
+
+const textResult = (text: string): CallToolResult => ({
+    content: [
+        {
+            type: "text",
+            text,
+        },
+    ],
+});
+
+// Text for the agent plus the same data in machine readable form
+const structuredResult = (text: string, structuredContent: Record<string, unknown>): CallToolResult => ({
+    ...textResult(text),
+    structuredContent,
+});
+
+// Structured description of a failure
+const toolError = (error: unknown): { kind: string; message: string } => ({
+    kind: error instanceof CodeGPTApiError ? error.kind : "error",
+    message: error instanceof Error ? error.message : `${error}`,
+});
+
+// Turn any failure into an MCP error result the agent can read
+const errorResult = (error: unknown): CallToolResult => {
+    const { kind, message } = toolError(error);
+    return {
+        ...structuredResult(message, { error: { kind, message } }),
+        isError: true,
+    };
+};
+
+// Map over items running at most `limit` callbacks at a time, keeping order
+const mapWithConcurrency = async <T, R>(
+    items: readonly T[],
+    limit: number,
+    fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> => {
+    const results = new Array<R>(items.length);
+    let next = 0;
+    const worker = async () => {
+        while (next < items.length) {
+            const index = next++;
+            results[index] = await fn(items[index], index);
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+    return results;
+};
+
 function extractRepoInfo(url: string): { repoName: string; repoOrg: string } {
   const cleanUrl = url.endsWith('/') ? url.slice(0, -1) : url
 
@@ -64,5 +141,11 @@ function extractRepoInfo(url: string): { repoName: string; repoOrg: string } {
 export {
     getGraphId,
     createToolSchema,
+    resolveTarget,
+    textResult,
+    structuredResult,
+    toolError,
+    errorResult,
+    mapWithConcurrency,
     extractRepoInfo
 }
@@ -0,0 +1,1021 @@
+import assert from "node:assert/strict";
+import { mkdirSync, mkdtempSync, readdirSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { setTimeout as sleep } from "node:timers/promises";
+import { fileURLToPath } from "node:url";
+import type { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { callTool, connectHttp, connectStdio, dataOf, errorOf, HttpServer, runCli, startHttpServer, textOf, toolNames } from "./harness.js";
+import { MockCodeGPT, startMockCodeGPT } from "./mock/codegpt-server.js";
+
+// ============================================================================
+// Expectations
+// ============================================================================
+
+type Mode = "single graph" | "repo URL" | "multi-repo" | "no graph";
+
+const GRAPH_TOOLS = [
+	"analyze-diff-impact",
+	"clear-cache",
+	"docs-semantic-search",
+	"export-subgraph",
+	"find-direct-connections",
+	"find-path",
+	"folder-tree-structure",
+	"get-code",
+	"get-code-batch",
+	"get-usage-dependency-links",
+	"nodes-semantic-search",
+	"traverse-graph",
+];
+
+const EXPECTED_TOOLS: Record<Mode, string[]> = {
+	"single graph": GRAPH_TOOLS,
+	"repo URL": GRAPH_TOOLS,
+	"multi-repo": GRAPH_TOOLS,
+	"no graph": [...GRAPH_TOOLS, "current-graph", "list-graphs", "select-graph"].sort(),
+};
+
+// Repositories of multi-repo sessions; the mock has no graph for acme/archived
+const MULTI_REPO_ARGS = ["--repo", "acme/shop", "--repo", "acme/blog", "--repo", "acme/archived"];
+
+// Tools that address a graph, with arguments that succeed against graph-shop
+const TOOL_CALLS: Record<string, Record<string, unknown>> = {
+	"get-code": { name: "Cart.total", path: "src/cart.ts" },
+	"get-code-batch": { items: [{ name: "Cart.total", path: "src/cart.ts" }, { name: "applyDiscount" }] },
+	"find-direct-connections": { name: "Cart.total", path: "src/cart.ts" },
+	"get-usage-dependency-links": { name: "applyDiscount", path: "src/pricing.ts" },
+	"nodes-semantic-search": { query: "cart total discounts" },
+	"docs-semantic-search": { query: "discount rules" },
+	"folder-tree-structure": { path: "src" },
+	"traverse-graph": { name: "handleCheckout", path: "src/api/routes.ts", maxDepth: 3 },
+	"find-path": { fromName: "handleCheckout", fromPath: "src/api/routes.ts", toName: "applyDiscount", toPath: "src/pricing.ts" },
+	"export-subgraph": { name: "checkout", path: "src/checkout.ts" },
+	"analyze-diff-impact": {
+		diff: [
+			"--- a/src/pricing.ts",
+			"+++ b/src/pricing.ts",
+			"@@ -1,3 +1,3 @@",
+			"-export function applyDiscount(amount: number): number {",
+			"-\treturn amount * 0.9;",
+			"+export function applyDiscount(amount: number, rate = 0.1): number {",
+			"+\treturn amount * (1 - rate);",
+			" }",
+			"",
+		].join("\n"),
+	},
+};
+
+// Tools needing what only the local backend has, left out when serving the CodeGPT API
+const LOCAL_TOOLS = ["analyze-graph", "check-architecture-rules", "file-outline"];
+
+const API_KEY = "sk-test-key";
+
+// A small TypeScript checkout served with --local
+const CHECKOUT_DIR = fileURLToPath(new URL("./fixtures/checkout", import.meta.url));
+
+// ============================================================================
+// Shared Checks
+// ============================================================================
+
+/**
+ * Opens a session of the given mode, authenticated with `apiKey` (default: the fixture key)
+ */
+type Connect = (mode: Mode, apiKey?: string) => Promise<Client>;
+
+/**
+ * Checks every transport runs against a session of each mode
+ */
+const defineChecks = (connect: Connect) => {
+	const clients = new Map<Mode, Client>();
+	const session = async (mode: Mode): Promise<Client> => {
+		if (!clients.has(mode)) clients.set(mode, await connect(mode));
+		return clients.get(mode)!;
+	};
+
+	after(async () => {
+		await Promise.all([...clients.values()].map(client => client.close()));
+	});
+
+	describe("tool listing", () => {
+		for (const mode of Object.keys(EXPECTED_TOOLS) as Mode[]) {
+			it(`lists the ${mode} tools`, async () => {
+				assert.deepEqual(await toolNames(await session(mode)), EXPECTED_TOOLS[mode]);
+			});
+		}
+
+		it("leaves out the tools needing a local checkout", async () => {
+			const names = await toolNames(await session("single graph"));
+			assert.deepEqual(LOCAL_TOOLS.filter(tool => names.includes(tool)), []);
+		});
+
+		it("takes a graph ID only when no graph is configured", async () => {
+			const schema = async (mode: Mode) =>
+				(await (await session(mode)).listTools()).tools.find(tool => tool.name === "get-code")!.inputSchema;
+			const noGraph = await schema("no graph");
+			assert.ok("graphId" in (noGraph.properties ?? {}));
+			assert.ok(!(noGraph.required ?? []).includes("graphId"));
+			assert.ok(!("graphId" in ((await schema("single graph")).properties ?? {})));
+			assert.ok(!("graphId" in ((await schema("repo URL")).properties ?? {})));
+			assert.ok(((await schema("multi-repo")).required ?? []).includes("repository"));
+		});
+	});
+
+	describe("tool results", () => {
+		it("get-code returns the implementation", async () => {
+			const result = await callTool(await session("single graph"), "get-code", TOOL_CALLS["get-code"]);
+			assert.ok(!result.isError, textOf(result));
+			assert.match(textOf(result), /applyDiscount\(/);
+			assert.equal(dataOf(result).nodes[0].id, "src/cart.ts::Cart.total");
+		});
+
+		it("get-code-batch returns every item in request order", async () => {
+			const result = await callTool(await session("single graph"), "get-code-batch", {
+				items: [...TOOL_CALLS["get-code-batch"].items as object[], { name: "Cart.remove" }],
+			});
+			assert.ok(!result.isError, textOf(result));
+			const [total, discount, missing] = dataOf(result).items;
+			assert.match(total.nodes?.[0].code ?? "", /applyDiscount\(/);
+			assert.match(discount.nodes?.[0].code ?? "", /amount \* 0\.9/);
+			assert.equal(missing.error?.kind, "not-found");
+			assert.match(textOf(result), /^Fetched 2 of 3 item\(s\)/);
+		});
+
+		it("get-code-batch cuts code beyond maxChars", async () => {
+			const result = await callTool(await session("single graph"), "get-code-batch", { ...TOOL_CALLS["get-code-batch"], maxChars: 20 });
+			const { items, truncated } = dataOf(result);
+			assert.equal(truncated, true);
+			assert.equal(items[0].truncated, true);
+			assert.match(items[0].nodes?.[0].code ?? "", /^.{20}\n… \(truncated\)$/s);
+		});
+
+		it("get-code-batch takes a repository per item in multi-repo sessions", async () => {
+			const result = await callTool(await session("multi-repo"), "get-code-batch", {
+				repository: "acme/shop",
+				items: [{ name: "checkout" }, { name: "renderPost", repository: "acme/blog" }],
+			});
+			assert.deepEqual(dataOf(result).items.map(item => !!item.nodes?.[0].code), [true, true]);
+		});
+
+		it("get-code-batch rejects item repositories with a single repository", async () => {
+			const result = await callTool(await session("single graph"), "get-code-batch", { items: [{ name: "checkout", repository: "acme/blog" }] });
+			assert.equal(result.isError, true);
+			assert.match(textOf(result), /several repositories/);
+		});
+
+		it("find-direct-connections returns callers and callees", async () => {
+			const result = await callTool(await session("single graph"), "find-direct-connections", TOOL_CALLS["find-direct-connections"]);
+			const edges = dataOf(result).edges.map(edge => `${edge.source} -> ${edge.target}`);
+			assert.ok(edges.includes("src/cart.ts::Cart.total -> src/pricing.ts::applyDiscount"));
+			assert.ok(edges.includes("src/checkout.ts::checkout -> src/cart.ts::Cart.total"));
+		});
+
+		it("get-usage-dependency-links returns transitive dependents", async () => {
+			const result = await callTool(await session("single graph"), "get-usage-dependency-links", TOOL_CALLS["get-usage-dependency-links"]);
+			const ids = dataOf(result).nodes.map(node => node.id);
+			assert.ok(ids.includes("src/api/routes.ts::handleCheckout"));
+			assert.ok(ids.includes("src/cart.ts::Cart.total"));
+		});
+
+		it("nodes-semantic-search ranks by score", async () => {
+			const result = await callTool(await session("single graph"), "nodes-semantic-search", TOOL_CALLS["nodes-semantic-search"]);
+			const [first] = dataOf(result).nodes;
+			assert.equal(first.id, "src/cart.ts::Cart.total");
+			assert.equal(typeof first.score, "number");
+		});
+
+		it("docs-semantic-search returns matching documents", async () => {
+			const result = await callTool(await session("single graph"), "docs-semantic-search", TOOL_CALLS["docs-semantic-search"]);
+			const [first] = dataOf(result).results as unknown[];
+			assert.ok(first && typeof first === "object" && "title" in first);
+			assert.equal(first.title, "Discount rules");
+		});
+
+		it("folder-tree-structure returns files and folders", async () => {
+			const result = await callTool(await session("single graph"), "folder-tree-structure", TOOL_CALLS["folder-tree-structure"]);
+			assert.deepEqual(
+				dataOf(result).entries.find(entry => entry.path === "src/api"),
+				{ path: "src/api", type: "folder" },
+			);
+			assert.ok(dataOf(result).entries.some(entry => entry.path === "src/api/routes.ts"));
+		});
+
+		it("traverse-graph follows callees several hops deep", async () => {
+			const result = await callTool(await session("single graph"), "traverse-graph", TOOL_CALLS["traverse-graph"]);
+			const reached = dataOf(result).nodes.find(node => node.id === "src/pricing.ts::applyDiscount");
+			assert.equal(reached?.depth, 3);
+		});
+
+		it("find-path returns the shortest call chain", async () => {
+			const result = await callTool(await session("single graph"), "find-path", TOOL_CALLS["find-path"]);
+			const [path] = dataOf(result).paths;
+			assert.deepEqual(path.nodes.map(node => node.name), ["handleCheckout", "checkout", "Cart.total", "applyDiscount"]);
+		});
+
+		it("export-subgraph renders a Mermaid diagram", async () => {
+			const result = await callTool(await session("single graph"), "export-subgraph", TOOL_CALLS["export-subgraph"]);
+			assert.equal(dataOf(result).format, "mermaid");
+			assert.match(dataOf(result).diagram, /^flowchart LR/);
+			assert.match(textOf(result), /^```mermaid/);
+		});
+
+		it("analyze-diff-impact lists the dependents of changed functions", async () => {
+			const result = await callTool(await session("single graph"), "analyze-diff-impact", TOOL_CALLS["analyze-diff-impact"]);
+			const { changed, impacted } = dataOf(result);
+			assert.equal(changed[0].path, "src/pricing.ts");
+			const routes = impacted.find(file => file.path === "src/api/routes.ts");
+			assert.ok(routes);
+			assert.ok(routes.nodes.some(node => node.id === "src/api/routes.ts::handleCheckout"));
+		});
+
+		it("pages through a folder tree with cursors", async () => {
+			const client = await session("single graph");
+			const seen: string[] = [];
+			let cursor: string | undefined;
+			do {
+				const result = await callTool(client, "folder-tree-structure", { maxItems: 3, ...(cursor ? { cursor } : {}) });
+				const { entries, page } = dataOf(result);
+				assert.ok(entries.length <= 3);
+				seen.push(...entries.map(entry => entry.path));
+				cursor = page.nextCursor;
+				if (cursor) assert.match(textOf(result), /more omitted\. Call again with cursor/);
+			} while (cursor);
+
+			const whole = dataOf(await callTool(client, "folder-tree-structure", {})).entries.map(entry => entry.path);
+			assert.deepEqual(seen, whole);
+		});
+
+		it("cuts later pages from the result fetched for the first", async () => {
+			const client = await session("single graph");
+			const searches = () => mock.requests.filter(request => request.path === "/mcp/graphs/nodes-semantic-search").length;
+			const calls = searches();
+			const first = dataOf(await callTool(client, "nodes-semantic-search", { ...TOOL_CALLS["nodes-semantic-search"], maxItems: 1 }));
+			assert.ok(first.page.nextCursor);
+			const second = dataOf(await callTool(client, "nodes-semantic-search", {
+				...TOOL_CALLS["nodes-semantic-search"],
+				maxItems: 1,
+				cursor: first.page.nextCursor,
+			}));
+			assert.equal(second.page.offset, 1);
+			assert.equal(searches() - calls, 1);
+		});
+
+		it("cuts code to maxTokens and drops it in summary mode", async () => {
+			const client = await session("single graph");
+			const cut = await callTool(client, "get-code", { ...TOOL_CALLS["get-code"], maxTokens: 10 });
+			assert.equal(dataOf(cut).page.truncated, true);
+			assert.match(dataOf(cut).nodes[0].code ?? "", /… \(truncated\)$/);
+
+			const summary = await callTool(client, "get-code-batch", { ...TOOL_CALLS["get-code-batch"], summary: true });
+			assert.equal(dataOf(summary).items[0].nodes?.[0].code, undefined);
+			assert.match(textOf(summary), /- Cart\.total \(src\/cart\.ts\)/);
+		});
+
+		it("offers paging arguments on list tools only", async () => {
+			const tools = (await (await session("single graph")).listTools()).tools;
+			const properties = (name: string) => Object.keys(tools.find(tool => tool.name === name)!.inputSchema.properties ?? {});
+			assert.ok(properties("get-usage-dependency-links").includes("cursor"));
+			// A diagram is bounded by maxNodes instead, as a page of it would draw a different graph
+			assert.ok(!properties("export-subgraph").includes("cursor"));
+			assert.ok(!properties("clear-cache").includes("cursor"));
+		});
+
+		it("clear-cache reports the cleared entries", async () => {
+			const result = await callTool(await session("single graph"), "clear-cache");
+			assert.match(dataOf(result).message, /^Cleared \d+ cached response\(s\)$/);
+		});
+
+		it("list-graphs lists the account's graphs", async () => {
+			const result = await callTool(await session("no graph"), "list-graphs");
+			assert.deepEqual(dataOf(result).graphs.map(graph => graph.id), ["graph-shop", "graph-blog"]);
+		});
+
+		it("tools take the graph ID as an argument when none is configured", async () => {
+			const result = await callTool(await session("no graph"), "get-code", { name: "toHtml", graphId: "graph-blog" });
+			assert.match(textOf(result), /marked\(markdown\)/);
+		});
+
+		it("select-graph sets the graph used by calls without a graph ID", async () => {
+			// A session of its own, as the selection lasts for the session
+			const client = await connect("no graph");
+			try {
+				assert.equal(dataOf(await callTool(client, "current-graph")).graph, null);
+
+				const selected = await callTool(client, "select-graph", { name: "shop", branch: "main" });
+				assert.equal(dataOf(selected).graph?.id, "graph-shop", textOf(selected));
+				assert.match(textOf(await callTool(client, "current-graph")), /acme\/shop@main \(graph-shop\)/);
+
+				assert.match(textOf(await callTool(client, "get-code", { name: "checkout" })), /payments\.charge/);
+				// An explicit graph ID still wins
+				assert.match(textOf(await callTool(client, "get-code", { name: "toHtml", graphId: "graph-blog" })), /marked\(markdown\)/);
+			} finally {
+				await client.close();
+			}
+		});
+
+		it("tools reach public graphs by repository", async () => {
+			const result = await callTool(await session("repo URL"), "get-code", { name: "checkout" });
+			assert.match(textOf(result), /payments\.charge/);
+		});
+
+		it("multi-repo sessions query the repository named in the call", async () => {
+			const result = await callTool(await session("multi-repo"), "get-code", { name: "renderPost", repository: "acme/blog" });
+			assert.match(textOf(result), /toHtml\(post\.body\)/);
+		});
+
+		it("multi-repo search fans out to every repository", async () => {
+			const result = await callTool(await session("multi-repo"), "nodes-semantic-search", { query: "render cart", repository: "*" });
+			const repositories = new Set(dataOf(result).nodes.map(node => node.repository));
+			assert.deepEqual([...repositories].sort(), ["acme/blog", "acme/shop"]);
+		});
+	});
+
+	describe("error paths", () => {
+		for (const [tool, args] of Object.entries(TOOL_CALLS)) {
+			it(`${tool} reports an unknown graph`, async () => {
+				const result = await callTool(await session("no graph"), tool, { ...args, graphId: "graph-missing" });
+				assert.equal(result.isError, true, textOf(result));
+				assert.equal(errorOf(result).kind, "not-found");
+			});
+		}
+
+		it("list-graphs reports an invalid API key", async () => {
+			const client = await connect("no graph", "sk-wrong");
+			try {
+				const result = await callTool(client, "list-graphs");
+				assert.equal(result.isError, true);
+				assert.equal(errorOf(result).kind, "auth");
+			} finally {
+				await client.close();
+			}
+		});
+
+		it("tools ask for a graph when none is selected", async () => {
+			const result = await callTool(await session("no graph"), "get-code", { name: "checkout" });
+			assert.equal(result.isError, true);
+			assert.match(textOf(result), /select-graph/);
+		});
+
+		it("select-graph reports graphs it cannot find", async () => {
+			const unknown = await callTool(await session("no graph"), "select-graph", { name: "acme/missing" });
+			assert.equal(unknown.isError, true);
+			assert.match(textOf(unknown), /No graph matches 'acme\/missing'/);
+
+			const branch = await callTool(await session("no graph"), "select-graph", { name: "acme/shop", branch: "dev" });
+			assert.equal(branch.isError, true);
+			assert.match(textOf(branch), /Branches available: main/);
+		});
+
+		it("get-code resolves a miscased or partial name", async () => {
+			const miscased = await callTool(await session("single graph"), "get-code", { name: "cart.total" });
+			assert.match(textOf(miscased), /^Resolved 'cart\.total' to 'Cart\.total' in src\/cart\.ts\./);
+			assert.match(textOf(miscased), /applyDiscount\(/);
+
+			const partial = await callTool(await session("single graph"), "find-direct-connections", { name: "total" });
+			assert.ok(dataOf(partial).edges.length, textOf(partial));
+		});
+
+		it("get-code lists the candidates of an ambiguous name", async () => {
+			const result = await callTool(await session("single graph"), "get-code", { name: "formatprice" });
+			assert.ok(!result.isError, textOf(result));
+			assert.deepEqual(dataOf(result).nodes, []);
+			assert.deepEqual(
+				dataOf(result).candidates.map(node => node.id).sort(),
+				["src/api/format.ts::formatPrice", "src/pricing.ts::formatPrice"],
+			);
+		});
+
+		it("get-code reports an unknown functionality", async () => {
+			const result = await callTool(await session("single graph"), "get-code", { name: "Cart.remove" });
+			assert.equal(result.isError, true);
+			assert.equal(errorOf(result).kind, "not-found");
+		});
+
+		it("find-path reports when no path exists", async () => {
+			const result = await callTool(await session("single graph"), "find-path", {
+				fromName: "applyDiscount", fromPath: "src/pricing.ts", toName: "handleCheckout", toPath: "src/api/routes.ts",
+			});
+			assert.deepEqual(dataOf(result).paths, []);
+		});
+
+		it("analyze-diff-impact rejects a call without a diff", async () => {
+			const result = await callTool(await session("single graph"), "analyze-diff-impact", {});
+			assert.equal(result.isError, true);
+		});
+
+		it("multi-repo search reports a failing repository without failing the call", async () => {
+			const result = await callTool(await session("multi-repo"), "nodes-semantic-search", {
+				query: "render", repository: ["acme/blog", "acme/archived"],
+			});
+			assert.ok(!result.isError, textOf(result));
+			assert.deepEqual(dataOf(result).failures.map(failure => failure.repository), ["acme/archived"]);
+		});
+
+		it("paged multi-repo search still reports the failing repository", async () => {
+			const result = await callTool(await session("multi-repo"), "nodes-semantic-search", {
+				query: "render", repository: ["acme/blog", "acme/archived"], maxItems: 1,
+			});
+			assert.equal(dataOf(result).page.returned, 1);
+			assert.match(textOf(result), /^Failed: acme\/archived \(/m);
+		});
+
+		it("multi-repo search rejects repositories outside the session", async () => {
+			const result = await callTool(await session("multi-repo"), "nodes-semantic-search", {
+				query: "render", repository: ["acme/blog", "acme/missing"],
+			});
+			assert.equal(result.isError, true);
+			assert.match(textOf(result), /Unknown repository 'acme\/missing'/);
+		});
+
+		it("rejects calls with invalid arguments", async () => {
+			await assert.rejects(callTool(await session("single graph"), "get-code", {}), /Invalid arguments/);
+			await assert.rejects(callTool(await session("no graph"), "select-graph", { name: 5 }), /Invalid arguments/);
+		});
+
+		it("rejects an invalid cursor", async () => {
+			const result = await callTool(await session("single graph"), "folder-tree-structure", { cursor: "not-a-cursor" });
+			assert.equal(result.isError, true);
+			assert.match(textOf(result), /Invalid cursor/);
+		});
+
+		it("rejects unknown tools", async () => {
+			await assert.rejects(callTool(await session("single graph"), "no-such-tool"), /not found/);
+		});
+	});
+
+	describe("resources and prompts", () => {
+		it("lists the file tree of the configured graph", async () => {
+			const { resources } = await (await session("single graph")).listResources();
+			assert.deepEqual(resources.map(resource => resource.uri), ["codegraph://graph-shop/tree/"]);
+		});
+
+		it("lists a file tree per repository of a multi-repo session", async () => {
+			const { resources } = await (await session("multi-repo")).listResources();
+			assert.deepEqual(resources.map(resource => resource.name), ["acme/shop file tree", "acme/blog file tree", "acme/archived file tree"]);
+		});
+
+		it("reads folder trees and code through resource URIs", async () => {
+			const client = await session("single graph");
+			const text = async (uri: string): Promise<string> => {
+				const [content] = (await client.readResource({ uri })).contents;
+				return typeof content.text === "string" ? content.text : "";
+			};
+			assert.match(await text("codegraph://graph-shop/tree/"), /^src\/$/m);
+			assert.match(await text("codegraph://graph-shop/tree/src/api"), /routes\.ts/);
+			assert.match(await text("codegraph://graph-shop/node/src/pricing.ts#applyDiscount"), /amount \* 0\.9/);
+			await assert.rejects(client.readResource({ uri: "codegraph://graph-blog/tree/" }), /Unknown repository 'graph-blog'/);
+		});
+
+		it("lists the workflow prompts", async () => {
+			const { prompts } = await (await session("single graph")).listPrompts();
+			assert.deepEqual(prompts.map(prompt => prompt.name).sort(),
+				["analyze-architecture", "component-onboarding", "migration-planner", "performance-optimizer", "security-audit"]);
+		});
+
+		it("fills prompts with their arguments and the session's graph", async () => {
+			const text = async (mode: Mode) => {
+				const { messages } = await (await session(mode)).getPrompt({ name: "analyze-architecture", arguments: { focus: "src/api" } });
+				return messages.map(message => message.content.type === "text" ? message.content.text : "").join("\n");
+			};
+			const configured = await text("single graph");
+			assert.match(configured, /folder-tree-structure with path 'src\/api'/);
+			assert.doesNotMatch(configured, /select-graph/);
+			assert.match(await text("no graph"), /choose a graph with select-graph/);
+			assert.match(await text("multi-repo"), /Several repositories are available \(acme\/shop, acme\/blog, acme\/archived\)/);
+		});
+	});
+};
+
+// ============================================================================
+// Transports
+// ============================================================================
+
+let mock: MockCodeGPT;
+
+before(async () => {
+	mock = await startMockCodeGPT();
+});
+
+after(async () => {
+	await mock.close();
+});
+
+// Requests the mock received for one graph endpoint and functionality
+const upstreamCalls = (tool: string, name: string): number =>
+	mock.requests.filter(request => request.path === `/mcp/graphs/${tool}` && request.body.name === name).length;
+
+const INITIALIZE = {
+	jsonrpc: "2.0",
+	id: 1,
+	method: "initialize",
+	params: { protocolVersion: "2025-03-26", capabilities: {}, clientInfo: { name: "codegraph-e2e", version: "1.0.0" } },
+};
+
+/**
+ * POST one JSON-RPC message to an MCP endpoint without a client, to check
+ * the HTTP layer around the sessions
+ */
+const postMcp = (url: string, token: string, message: Record<string, unknown>, sessionId?: string): Promise<globalThis.Response> =>
+	fetch(url, {
+		method: "POST",
+		headers: {
+			"content-type": "application/json",
+			accept: "application/json, text/event-stream",
+			authorization: `Bearer ${token}`,
+			...(sessionId ? { "mcp-session-id": sessionId } : null),
+		},
+		body: JSON.stringify(message),
+	});
+
+describe("STDIO", () => {
+	const connect: Connect = (mode, apiKey = API_KEY) => {
+		const base = ["--api-base", mock.url];
+		switch (mode) {
+			case "single graph":
+				return connectStdio([...base, "--api-key", apiKey, "--graph-id", "graph-shop"]);
+			case "repo URL":
+				return connectStdio([...base, "--repo", "acme/shop"]);
+			case "multi-repo":
+				return connectStdio([...base, ...MULTI_REPO_ARGS]);
+			case "no graph":
+				return connectStdio([...base, "--api-key", apiKey]);
+		}
+	};
+	defineChecks(connect);
+
+	it("takes settings from the environment", async () => {
+		const client = await connectStdio([], { CODEGPT_API_BASE: mock.url, CODEGPT_API_KEY: API_KEY, CODEGPT_GRAPH_ID: "graph-blog" });
+		try {
+			const result = await callTool(client, "get-code", { name: "toHtml" });
+			assert.match(textOf(result), /marked/);
+		} finally {
+			await client.close();
+		}
+	});
+});
+
+describe("CodeGPT API failures", () => {
+	const APPLY_DISCOUNT = { name: "applyDiscount", path: "src/pricing.ts" };
+
+	// Call get-code once on a server of its own, with the given retry settings
+	const getCode = async (env: Record<string, string>) => {
+		const client = await connectStdio(["--api-base", mock.url, "--api-key", API_KEY, "--graph-id", "graph-shop"], env);
+		try {
+			const calls = upstreamCalls("get-code", APPLY_DISCOUNT.name);
+			const started = Date.now();
+			const result = await callTool(client, "get-code", APPLY_DISCOUNT);
+			return { result, elapsedMs: Date.now() - started, attempts: upstreamCalls("get-code", APPLY_DISCOUNT.name) - calls };
+		} finally {
+			await client.close();
+		}
+	};
+
+	it("retries server errors until an attempt succeeds", async () => {
+		mock.fail("get-code", { status: 503 }, { status: 502 });
+		const { result, attempts } = await getCode({ CODEGPT_MAX_RETRIES: "2", CODEGPT_RETRY_BASE_DELAY_MS: "20" });
+		assert.ok(!result.isError, textOf(result));
+		assert.equal(attempts, 3);
+	});
+
+	it("gives up after CODEGPT_MAX_RETRIES retries", async () => {
+		mock.fail("get-code", { status: 500 }, { status: 500 }, { status: 500 });
+		const { result, attempts } = await getCode({ CODEGPT_MAX_RETRIES: "2", CODEGPT_RETRY_BASE_DELAY_MS: "20" });
+		assert.equal(result.isError, true);
+		assert.equal(errorOf(result).kind, "server");
+		assert.equal(attempts, 3);
+	});
+
+	it("does not retry client errors", async () => {
+		mock.fail("get-code", { status: 400 });
+		const { result, attempts } = await getCode({ CODEGPT_MAX_RETRIES: "2", CODEGPT_RETRY_BASE_DELAY_MS: "20" });
+		assert.equal(result.isError, true);
+		assert.equal(errorOf(result).kind, "bad-request");
+		assert.equal(attempts, 1);
+	});
+
+	it("caps the backoff at CODEGPT_RETRY_MAX_DELAY_MS", async () => {
+		mock.fail("get-code", { status: 503 });
+		const { result, elapsedMs } = await getCode({
+			CODEGPT_MAX_RETRIES: "1",
+			CODEGPT_RETRY_BASE_DELAY_MS: "60000",
+			CODEGPT_RETRY_MAX_DELAY_MS: "50",
+		});
+		assert.ok(!result.isError, textOf(result));
+		assert.ok(elapsedMs < 5000, `took ${elapsedMs}ms`);
+	});
+
+	it("waits as long as Retry-After asks when rate limited", async () => {
+		mock.fail("get-code", { status: 429, retryAfter: 1 });
+		const { result, elapsedMs, attempts } = await getCode({ CODEGPT_MAX_RETRIES: "1", CODEGPT_RETRY_BASE_DELAY_MS: "20" });
+		assert.ok(!result.isError, textOf(result));
+		assert.equal(attempts, 2);
+		assert.ok(elapsedMs >= 950, `took ${elapsedMs}ms`);
+	});
+
+	it("gives up at once when Retry-After exceeds the maximum delay", async () => {
+		mock.fail("get-code", { status: 429, retryAfter: 30 });
+		const { result, attempts } = await getCode({ CODEGPT_MAX_RETRIES: "2", CODEGPT_RETRY_MAX_DELAY_MS: "1000" });
+		assert.equal(result.isError, true);
+		assert.equal(errorOf(result).kind, "rate-limited");
+		assert.equal(attempts, 1);
+	});
+
+	it("retries an attempt that outlasts CODEGPT_REQUEST_TIMEOUT_MS", async () => {
+		mock.fail("get-code", { delayMs: 1000 });
+		const { result, attempts } = await getCode({
+			CODEGPT_MAX_RETRIES: "1",
+			CODEGPT_RETRY_BASE_DELAY_MS: "20",
+			CODEGPT_REQUEST_TIMEOUT_MS: "200",
+		});
+		assert.ok(!result.isError, textOf(result));
+		assert.equal(attempts, 2);
+	});
+
+	it("reports a timeout when no attempt answers in time", async () => {
+		mock.fail("get-code", { delayMs: 1000 });
+		const { result } = await getCode({ CODEGPT_REQUEST_TIMEOUT_MS: "200" });
+		assert.equal(result.isError, true);
+		assert.equal(errorOf(result).kind, "timeout");
+	});
+});
+
+describe("Response cache", () => {
+	const connect = (env: Record<string, string>) =>
+		connectStdio(["--api-base", mock.url, "--api-key", API_KEY, "--graph-id", "graph-shop"], env);
+	const getCode = (client: Client, name: string) => callTool(client, "get-code", { name });
+
+	it("answers repeated calls from the cache until their TTL expires", async () => {
+		const client = await connect({ CODEGPT_CACHE_TTLS: "get-code=1" });
+		try {
+			const calls = upstreamCalls("get-code", "Cart.add");
+			await getCode(client, "Cart.add");
+			await getCode(client, "Cart.add");
+			assert.equal(upstreamCalls("get-code", "Cart.add") - calls, 1);
+			await sleep(1100);
+			await getCode(client, "Cart.add");
+			assert.equal(upstreamCalls("get-code", "Cart.add") - calls, 2);
+		} finally {
+			await client.close();
+		}
+	});
+
+	it("evicts the least recently used response beyond CODEGPT_CACHE_MAX_ENTRIES", async () => {
+		const client = await connect({ CODEGPT_CACHE_MAX_ENTRIES: "2" });
+		try {
+			const before = { checkout: upstreamCalls("get-code", "checkout"), cart: upstreamCalls("get-code", "Cart") };
+			for (const name of ["checkout", "Cart", "checkout", "handleCheckout", "checkout", "Cart"]) {
+				await getCode(client, name);
+			}
+			// Cart was the least recently used when handleCheckout came in
+			assert.equal(upstreamCalls("get-code", "checkout") - before.checkout, 1);
+			assert.equal(upstreamCalls("get-code", "Cart") - before.cart, 2);
+		} finally {
+			await client.close();
+		}
+	});
+
+	it("keeps responses across restarts in CODEGPT_CACHE_DIR", async () => {
+		const dir = mkdtempSync(join(tmpdir(), "codegraph-cache-"));
+		const calls = upstreamCalls("get-code", "handleCheckout");
+		for (let run = 0; run < 2; run++) {
+			const client = await connect({ CODEGPT_CACHE_DIR: dir });
+			try {
+				assert.match(textOf(await getCode(client, "handleCheckout")), /checkout\(req\.body\.cart\)/);
+			} finally {
+				await client.close();
+			}
+		}
+		assert.equal(upstreamCalls("get-code", "handleCheckout") - calls, 1);
+		assert.equal(readdirSync(dir).length, 1);
+	});
+});
+
+describe("Streamable HTTP", () => {
+	let server: HttpServer;
+	let multiRepoServer: HttpServer;
+
+	before(async () => {
+		server = await startHttpServer(["--api-base", mock.url]);
+		multiRepoServer = await startHttpServer(["--api-base", mock.url, ...MULTI_REPO_ARGS]);
+	});
+
+	after(async () => {
+		await Promise.all([server?.close(), multiRepoServer?.close()]);
+	});
+
+	// The bearer token is the caller's own CodeGPT API key
+	const connect: Connect = (mode, apiKey = API_KEY) => {
+		switch (mode) {
+			case "single graph":
+				return connectHttp(server.url, apiKey, { "config.graphId": "graph-shop" });
+			case "repo URL":
+				return connectHttp(server.url, apiKey, { "config.repoUrl": "acme/shop" });
+			case "multi-repo":
+				return connectHttp(multiRepoServer.url, apiKey);
+			case "no graph":
+				return connectHttp(server.url, apiKey);
+		}
+	};
+	defineChecks(connect);
+
+	it("rejects requests without a bearer token", async () => {
+		const response = await fetch(server.url, {
+			method: "POST",
+			headers: { "content-type": "application/json", accept: "application/json, text/event-stream" },
+			body: JSON.stringify({ jsonrpc: "2.0", id: 1, method: "initialize", params: {} }),
+		});
+		assert.equal(response.status, 401);
+		assert.match(response.headers.get("www-authenticate") ?? "", /^Bearer/);
+	});
+
+	it("reports the CodeGPT API as ready", async () => {
+		const response = await fetch(server.url.replace(/\/mcp$/, "/health"));
+		const health = await response.json();
+		assert.equal(health.status, "healthy");
+		assert.equal(health.checks.codegptApi.ok, true);
+	});
+
+	it("serves Prometheus metrics for the tool calls to authenticated callers", async () => {
+		const url = server.url.replace(/\/mcp$/, "/metrics");
+		assert.equal((await fetch(url)).status, 401);
+
+		const metrics = await (await fetch(url, { headers: { authorization: `Bearer ${API_KEY}` } })).text();
+		assert.match(metrics, /codegraph_tool_calls_total\{tool="get-code",outcome="ok"\} \d+/);
+		assert.match(metrics, /codegraph_upstream_responses_total\{endpoint="\/mcp\/graphs\/get-code",status="404"\} \d+/);
+		assert.match(metrics, /codegraph_cache_hits_total \d+/);
+	});
+
+	it("clear-cache only clears the caller's own entries", async () => {
+		const [own, other] = await Promise.all(["org-own", "org-other"].map(orgId =>
+			connectHttp(server.url, API_KEY, { "config.graphId": "graph-shop" }, { "X-CodeGPT-Org-Id": orgId })));
+		try {
+			await callTool(own, "get-code", TOOL_CALLS["get-code"]);
+			assert.match(textOf(await callTool(other, "clear-cache")), /^Cleared 0 cached/);
+			assert.match(textOf(await callTool(own, "clear-cache")), /^Cleared 1 cached/);
+		} finally {
+			await Promise.all([own.close(), other.close()]);
+		}
+	});
+
+	it("rejects git ranges for analyze-diff-impact, having no checkout", async () => {
+		const client = await connect("single graph");
+		try {
+			const result = await callTool(client, "analyze-diff-impact", { range: "main..HEAD" });
+			assert.equal(result.isError, true);
+			assert.match(textOf(result), /range needs a local checkout/);
+		} finally {
+			await client.close();
+		}
+	});
+
+	it("never opens more than MCP_MAX_SESSIONS sessions, even when initialized concurrently", async () => {
+		const limited = await startHttpServer(["--api-base", mock.url, "--graph-id", "graph-shop"], { MCP_MAX_SESSIONS: "2" });
+		try {
+			const initialize = () => postMcp(limited.url, API_KEY, INITIALIZE);
+			const statuses = (await Promise.all(Array.from({ length: 5 }, initialize))).map(response => response.status).sort();
+			assert.deepEqual(statuses, [200, 200, 503, 503, 503]);
+		} finally {
+			await limited.close();
+		}
+	});
+
+	it("gives the slot of a session that failed to initialize back", async () => {
+		const limited = await startHttpServer(["--api-base", mock.url, "--graph-id", "graph-shop"], { MCP_MAX_SESSIONS: "1" });
+		try {
+			for (let attempt = 0; attempt < 3; attempt++) {
+				const response = await postMcp(limited.url, API_KEY, { jsonrpc: "2.0", id: 1, method: "tools/list" });
+				assert.equal(response.status, 400);
+			}
+			assert.equal((await postMcp(limited.url, API_KEY, INITIALIZE)).status, 200);
+		} finally {
+			await limited.close();
+		}
+	});
+
+	it("refuses to serve a local checkout without MCP_AUTH_TOKENS", async () => {
+		const { status, stderr } = await runCli(["--port", "8080", "--local", CHECKOUT_DIR]);
+		assert.equal(status, 2);
+		assert.match(stderr, /requires MCP_AUTH_TOKENS/);
+	});
+
+	// CORS preflight from a browser page on `origin`
+	const preflight = (url: string, origin: string) => fetch(url, {
+		method: "OPTIONS",
+		headers: { origin, "access-control-request-method": "POST", "access-control-request-headers": "authorization,content-type" },
+	});
+
+	it("refuses cross-origin browser requests by default", async () => {
+		const response = await preflight(server.url, "https://app.example");
+		assert.equal(response.headers.get("access-control-allow-origin"), null);
+	});
+
+	it("closes sessions idle for longer than MCP_SESSION_IDLE_TIMEOUT_MS", async () => {
+		const idle = await startHttpServer(["--api-base", mock.url, "--graph-id", "graph-shop"], {
+			MCP_SESSION_IDLE_TIMEOUT_MS: "300",
+			MCP_SESSION_SWEEP_INTERVAL_MS: "100",
+		});
+		try {
+			const initialized = await postMcp(idle.url, API_KEY, INITIALIZE);
+			await initialized.text();
+			const sessionId = initialized.headers.get("mcp-session-id")!;
+			const listTools = async () => {
+				const response = await postMcp(idle.url, API_KEY, { jsonrpc: "2.0", id: 2, method: "tools/list" }, sessionId);
+				await response.text();
+				return response.status;
+			};
+			assert.equal(await listTools(), 200);
+			await sleep(1000);
+			assert.equal(await listTools(), 400);
+		} finally {
+			await idle.close();
+		}
+	});
+
+	describe("with MCP_AUTH_TOKENS and MCP_CORS_ORIGINS", () => {
+		let restricted: HttpServer;
+
+		before(async () => {
+			restricted = await startHttpServer(["--api-base", mock.url, "--graph-id", "graph-shop"], {
+				MCP_AUTH_TOKENS: `team-token=${API_KEY}`,
+				MCP_CORS_ORIGINS: "https://app.example",
+			});
+		});
+
+		after(async () => {
+			await restricted?.close();
+		});
+
+		it("accepts listed tokens with the CodeGPT key they grant", async () => {
+			const client = await connectHttp(restricted.url, "team-token");
+			try {
+				assert.match(textOf(await callTool(client, "get-code", TOOL_CALLS["get-code"])), /applyDiscount\(/);
+			} finally {
+				await client.close();
+			}
+		});
+
+		it("rejects tokens outside the list, CodeGPT keys included", async () => {
+			for (const token of [API_KEY, "other-token"]) {
+				const response = await postMcp(restricted.url, token, INITIALIZE);
+				assert.equal(response.status, 401);
+				assert.match(response.headers.get("www-authenticate") ?? "", /^Bearer/);
+			}
+		});
+
+		it("allows the listed browser origins only", async () => {
+			const allowed = await preflight(restricted.url, "https://app.example");
+			assert.equal(allowed.headers.get("access-control-allow-origin"), "https://app.example");
+			assert.match(allowed.headers.get("access-control-allow-headers") ?? "", /Authorization/);
+			const other = await preflight(restricted.url, "https://evil.example");
+			assert.notEqual(other.headers.get("access-control-allow-origin"), "https://evil.example");
+		});
+	});
+});
+
+describe("Local checkout", () => {
+	let client: Client;
+
+	before(async () => {
+		client = await connectStdio(["--local", CHECKOUT_DIR, "--entry-point", "src/main.ts"]);
+	});
+
+	after(async () => {
+		await client?.close();
+	});
+
+	it("lists the tools needing the local graph", async () => {
+		const names = await toolNames(client);
+		assert.deepEqual(LOCAL_TOOLS.filter(tool => !names.includes(tool)), []);
+	});
+
+	it("file-outline nests symbols with signatures and doc summaries", async () => {
+		const result = await callTool(client, "file-outline", { path: "src/inventory.ts" });
+		const symbols = dataOf(result).symbols;
+		assert.deepEqual(symbols.map(symbol => symbol.name),
+			["DEFAULT_STOCK", "Product", "Inventory", "Inventory.count", "Inventory.take", "restock"]);
+		const take = symbols.find(symbol => symbol.name === "Inventory.take");
+		assert.ok(take);
+		assert.equal(take.kind, "method");
+		assert.equal(take.parent, "src/inventory.ts::Inventory");
+		assert.equal(take.signature, "take(product: Product, units = 1): void");
+		assert.equal(take.doc, "Take units out of stock.");
+		assert.deepEqual([take.startLine, take.endLine], [26, 31]);
+		assert.equal(symbols.find(symbol => symbol.name === "DEFAULT_STOCK")?.kind, "constant");
+		assert.match(textOf(result), /^ {4}- method Inventory\.count \(lines 19-21\): count\(sku: string\): number$/m);
+	});
+
+	it("file-outline covers every file under a folder", async () => {
+		const result = await callTool(client, "file-outline", { path: "src", maxItems: 2 });
+		assert.equal(dataOf(result).page.total, 14);
+		assert.deepEqual(dataOf(result).symbols.map(symbol => symbol.path), ["src/cart.ts", "src/cart.ts"]);
+	});
+
+	it("file-outline reports paths without symbols", async () => {
+		assert.match(textOf(await callTool(client, "file-outline", { path: "docs" })), /No symbols found under 'docs'/);
+	});
+
+	it("analyze-graph ranks hotspots by fan-in", async () => {
+		const files = dataOf(await callTool(client, "analyze-graph", { mode: "hotspots", level: "file" })).hotspots;
+		assert.deepEqual(files.map(({ id, fanIn, fanOut }) => [id, fanIn, fanOut]), [
+			["src/cart.ts", 2, 2],
+			["src/inventory.ts", 2, 0],
+			["src/checkout.ts", 1, 1],
+		]);
+		const symbols = dataOf(await callTool(client, "analyze-graph", { mode: "hotspots", path: "src/inventory.ts", limit: 1 }));
+		assert.equal(symbols.hotspots[0].id, "src/inventory.ts::Inventory.take");
+		assert.equal(symbols.truncated, true);
+	});
+
+	it("analyze-graph finds cycles between files", async () => {
+		const result = await callTool(client, "analyze-graph", { mode: "cycles" });
+		assert.deepEqual(dataOf(result).cycles.map(({ cycle }: { cycle: string[] }) => cycle), [["src/cart.ts", "src/checkout.ts", "src/cart.ts"]]);
+		assert.match(textOf(await callTool(client, "analyze-graph", { mode: "cycles", level: "folder" })), /No cycles between folders/);
+	});
+
+	it("check-architecture-rules reports the edges breaking the checkout's rules", async () => {
+		const result = await callTool(client, "check-architecture-rules");
+		const { rules, violations } = dataOf(result);
+		assert.equal(rules, 3);
+		assert.deepEqual(violations.map(({ rule, relation, source, target }) => [rule, source.id, relation, target.id]), [
+			["checkout-takes-no-cart-internals", "src/checkout.ts::checkout", "calls", "src/cart.ts::Cart.total"],
+			["checkout-takes-no-cart-internals", "src/checkout.ts::legacyCheckout", "calls", "src/cart.ts::Cart.total"],
+			["inventory-only-through-carts", "src/main.ts::main", "calls", "src/inventory.ts::Inventory"],
+		]);
+		assert.match(textOf(result), /^- src\/main\.ts::main -\[calls\]-> src\/inventory\.ts::Inventory \(src\/main\.ts -> src\/inventory\.ts\)$/m);
+	});
+
+	it("check-architecture-rules takes rules in the call", async () => {
+		const check = async (rule: Record<string, unknown>) =>
+			dataOf(await callTool(client, "check-architecture-rules", { rules: [{ name: "layers", ...rule }] }));
+		const forbidden = await check({ from: "src/inventory.ts", forbid: "src/cart.ts" });
+		assert.deepEqual(forbidden.violations, []);
+		const allowed = await check({ from: "src/cart.ts", allow: ["src/inventory.ts"], relations: ["imports"] });
+		assert.deepEqual(allowed.violations.map(({ source, target }) => [source.path, target.path]), [["src/cart.ts", "src/checkout.ts"]]);
+		await assert.rejects(callTool(client, "check-architecture-rules", { rules: [{ name: "layers", from: "src/**" }] }), /either forbid or allow/);
+	});
+
+	it("check-architecture-rules refuses rules files outside the checkout", async () => {
+		for (const rulesFile of ["../../etc/passwd", "/etc/passwd", ".."]) {
+			const result = await callTool(client, "check-architecture-rules", { rulesFile });
+			assert.equal(result.isError, true, rulesFile);
+			assert.match(textOf(result), /^rulesFile must be a file inside /);
+		}
+	});
+
+	it("analyze-graph lists dead code except entry points", async () => {
+		const ids = async (args: Record<string, unknown>) =>
+			dataOf(await callTool(client, "analyze-graph", { mode: "dead-code", ...args })).deadCode.map(node => node.id);
+		assert.deepEqual(await ids({}), ["src/checkout.ts::legacyCheckout", "src/inventory.ts::restock"]);
+		assert.deepEqual(await ids({ entryPoints: ["legacy*"] }), ["src/inventory.ts::restock"]);
+		assert.deepEqual(await ids({ path: "src/cart.ts" }), []);
+	});
+
+	it("get-code-batch spends maxChars across the nodes of an item in order", async () => {
+		// Two files declaring the same function, so that one item finds two nodes
+		const dir = mkdtempSync(join(tmpdir(), "codegraph-batch-"));
+		mkdirSync(join(dir, "src"));
+		for (const file of ["a", "b"]) {
+			writeFileSync(join(dir, "src", `${file}.ts`), `export function pick(): string {\n\treturn "${file.repeat(20)}";\n}\n`);
+		}
+		const local = await connectStdio(["--local", dir]);
+		try {
+			const full = dataOf(await callTool(local, "get-code-batch", { items: [{ name: "pick" }] })).items[0].nodes ?? [];
+			assert.equal(full.length, 2);
+			const [first, second] = full.map(node => node.code ?? "");
+
+			const result = await callTool(local, "get-code-batch", { items: [{ name: "pick" }], maxChars: first.length + 10 });
+			const [item] = dataOf(result).items;
+			assert.equal(item.truncated, true);
+			assert.deepEqual(item.nodes?.map(node => node.code), [first, `${second.slice(0, 10)}\n… (truncated)`]);
+			assert.ok(textOf(result).includes(first));
+			assert.ok(textOf(result).includes(`${second.slice(0, 10)}\n… (truncated)`));
+			assert.ok(!textOf(result).includes(second));
+		} finally {
+			await local.close();
+		}
+	});
+});
+
+describe("Architecture rule check (CLI)", () => {
+	it("exits with status 1 and lists the violations", async () => {
+		const run = await runCli(["--check-rules", "--local", CHECKOUT_DIR]);
+		assert.equal(run.status, 1);
+		assert.match(run.stdout, /^3 violation\(s\) of 3 architecture rule\(s\)/);
+		assert.match(run.stdout, /inventory-only-through-carts: \*\* \(except src\/cart\.ts\) must not depend on Inventory\*/);
+	});
+
+	it("exits with status 0 when every rule passes", async () => {
+		const rulesFile = join(mkdtempSync(join(tmpdir(), "codegraph-rules-")), "rules.json");
+		writeFileSync(rulesFile, JSON.stringify({ rules: [{ name: "leaf", from: "src/inventory.ts", forbid: "src/cart.ts" }] }));
+		const run = await runCli(["--check-rules", "--local", CHECKOUT_DIR, "--rules", rulesFile]);
+		assert.equal(run.status, 0);
+		assert.match(run.stdout, /All 1 architecture rule\(s\) pass/);
+	});
+
+	it("exits with status 2 without a checkout", async () => {
+		const run = await runCli(["--check-rules"]);
+		assert.equal(run.status, 2);
+		assert.match(run.stderr, /--check-rules needs the checkout to check/);
+	});
+});
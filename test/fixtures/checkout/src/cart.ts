@@ -0,0 +1,22 @@
+import { checkout } from "./checkout.js";
+import { Inventory, Product } from "./inventory.js";
+
+/** Products picked by one customer */
+export class Cart {
+	private readonly products: Product[] = [];
+
+	constructor(private readonly inventory: Inventory) {}
+
+	add(product: Product): void {
+		this.inventory.take(product);
+		this.products.push(product);
+	}
+
+	get total(): number {
+		return this.products.reduce((sum, product) => sum + product.price, 0);
+	}
+
+	pay(): number {
+		return checkout(this);
+	}
+}
@@ -0,0 +1,36 @@
+/**
+ * Stock kept per product. Quantities never go below zero.
+ */
+export const DEFAULT_STOCK = 10;
+
+/** A product on the shelves */
+export interface Product {
+	sku: string;
+	price: number;
+}
+
+/**
+ * Tracks the stock of every product. Used by the checkout.
+ */
+export class Inventory {
+	private readonly stock = new Map<string, number>();
+
+	/** Units left of a product */
+	count(sku: string): number {
+		return this.stock.get(sku) ?? DEFAULT_STOCK;
+	}
+
+	/**
+	 * Take units out of stock. Fails when not enough are left.
+	 */
+	take(product: Product, units = 1): void {
+		if (this.count(product.sku) < units) {
+			throw new Error(`Out of stock: ${product.sku}`);
+		}
+		this.stock.set(product.sku, this.count(product.sku) - units);
+	}
+}
+
+export function restock(inventory: Inventory, product: Product): void {
+	inventory.take(product, -DEFAULT_STOCK);
+}
@@ -0,0 +1,8 @@
+import { Cart } from "./cart.js";
+import { Inventory } from "./inventory.js";
+
+export function main(): number {
+	const cart = new Cart(new Inventory());
+	cart.add({ sku: "apple", price: 2 });
+	return cart.pay();
+}
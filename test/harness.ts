@@ -0,0 +1,239 @@
+import { ChildProcess, spawn } from "child_process";
+import { mkdtempSync } from "fs";
+import { createServer } from "net";
+import { tmpdir } from "os";
+import { join } from "path";
+import { fileURLToPath } from "url";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import type { z, ZodRawShape } from "zod";
+import type { pageSchema } from "../src/paging.js";
+import type {
+	analysisOutput,
+	codeBatchOutput,
+	diagramOutput,
+	docsOutput,
+	impactOutput,
+	listGraphsOutput,
+	messageOutput,
+	nodesOutput,
+	outlineOutput,
+	pathsOutput,
+	rulesOutput,
+	selectedGraphOutput,
+	subgraphOutput,
+	traversalOutput,
+	treeOutput,
+} from "../src/schemas.js";
+
+/**
+ * Helpers to run the server from source (through tsx) and talk to it with
+ * the MCP client SDK. Set E2E_DEBUG=1 to see the server logs.
+ */
+
+const SERVER_ENTRY = fileURLToPath(new URL("../src/index.ts", import.meta.url));
+const TSX = import.meta.resolve("tsx");
+const DEBUG = !!process.env.E2E_DEBUG;
+
+// An empty working directory, so no .env or codegraph.config.* of the checkout leaks in
+const WORK_DIR = mkdtempSync(join(tmpdir(), "codegraph-e2e-"));
+
+const serverEnv = (extra: Record<string, string> = {}): Record<string, string> => ({
+	PATH: process.env.PATH ?? "",
+	HOME: WORK_DIR,
+	LOG_LEVEL: DEBUG ? "debug" : "error",
+	CODEGPT_MAX_RETRIES: "0",
+	...extra,
+});
+
+const serverArgs = (args: string[]): string[] => ["--import", TSX, SERVER_ENTRY, ...args];
+
+const newClient = () => new Client({ name: "codegraph-e2e", version: "1.0.0" });
+
+/**
+ * Start the server over STDIO with the given CLI arguments and connect to it
+ */
+export const connectStdio = async (args: string[], env?: Record<string, string>): Promise<Client> => {
+	const client = newClient();
+	await client.connect(new StdioClientTransport({
+		command: process.execPath,
+		args: serverArgs(args),
+		env: serverEnv(env),
+		cwd: WORK_DIR,
+		stderr: DEBUG ? "inherit" : "ignore",
+	}));
+	return client;
+};
+
+export type HttpServer = {
+	/** MCP endpoint URL */
+	url: string;
+	close(): Promise<void>;
+};
+
+const freePort = (): Promise<number> =>
+	new Promise((resolve, reject) => {
+		const server = createServer();
+		server.once("error", reject);
+		server.listen(0, "127.0.0.1", () => {
+			const { port } = server.address() as { port: number };
+			server.close(() => resolve(port));
+		});
+	});
+
+const exited = (child: ChildProcess): Promise<void> =>
+	new Promise(resolve => child.exitCode !== null || child.signalCode !== null ? resolve() : child.once("exit", () => resolve()));
+
+export type CliRun = {
+	status: number | null;
+	stdout: string;
+	stderr: string;
+};
+
+/**
+ * Run the CLI to completion, e.g. a one-off command such as --check-rules
+ */
+export const runCli = (args: string[], env?: Record<string, string>): Promise<CliRun> =>
+	new Promise((resolve, reject) => {
+		const child = spawn(process.execPath, serverArgs(args), { cwd: WORK_DIR, env: serverEnv(env), stdio: ["ignore", "pipe", "pipe"] });
+		let stdout = "";
+		let stderr = "";
+		child.stdout!.on("data", chunk => stdout += chunk);
+		child.stderr!.on("data", chunk => stderr += chunk);
+		child.once("error", reject);
+		child.once("close", status => resolve({ status, stdout, stderr }));
+	});
+
+/**
+ * Start the server in HTTP mode and wait until its health check passes
+ */
+export const startHttpServer = async (args: string[], env?: Record<string, string>): Promise<HttpServer> => {
+	const port = await freePort();
+	const child = spawn(process.execPath, serverArgs(["--port", String(port), ...args]), {
+		cwd: WORK_DIR,
+		env: serverEnv(env),
+		stdio: ["ignore", "ignore", DEBUG ? "inherit" : "ignore"],
+	});
+
+	const base = `http://127.0.0.1:${port}`;
+	const deadline = Date.now() + 30000;
+	for (;;) {
+		if (child.exitCode !== null) {
+			throw new Error(`HTTP server exited with code ${child.exitCode}`);
+		}
+		const healthy = await fetch(`${base}/health`).then(response => response.ok, () => false);
+		if (healthy) break;
+		if (Date.now() > deadline) {
+			child.kill();
+			throw new Error("HTTP server did not become healthy within 30s");
+		}
+		await new Promise(resolve => setTimeout(resolve, 200));
+	}
+
+	return {
+		url: `${base}/mcp`,
+		close: async () => {
+			child.kill("SIGTERM");
+			await exited(child);
+		},
+	};
+};
+
+/**
+ * Open an MCP session on an HTTP server, authenticating with `token` and
+ * passing `query` (e.g. config.graphId) on the endpoint URL and any extra
+ * `headers` (e.g. X-CodeGPT-Org-Id)
+ */
+export const connectHttp = async (
+	url: string,
+	token: string,
+	query: Record<string, string> = {},
+	headers: Record<string, string> = {},
+): Promise<Client> => {
+	const endpoint = new URL(url);
+	for (const [name, value] of Object.entries(query)) {
+		endpoint.searchParams.set(name, value);
+	}
+	const client = newClient();
+	await client.connect(new StreamableHTTPClientTransport(endpoint, {
+		requestInit: { headers: { ...headers, Authorization: `Bearer ${token}` } },
+	}));
+	return client;
+};
+
+// ============================================================================
+// Tool Calls
+// ============================================================================
+
+type Output<Shape extends ZodRawShape> = z.infer<z.ZodObject<Shape>>;
+
+// List tools also answer with the page they returned
+type Paged<Shape extends ZodRawShape> = Output<Shape> & { page?: z.infer<typeof pageSchema> };
+
+/**
+ * Structured content of each tool, as its output schema declares it
+ */
+export type ToolOutputs = {
+	"analyze-diff-impact": Paged<typeof impactOutput>;
+	"analyze-graph": Paged<typeof analysisOutput>;
+	"check-architecture-rules": Paged<typeof rulesOutput>;
+	"clear-cache": Output<typeof messageOutput>;
+	"current-graph": Output<typeof selectedGraphOutput>;
+	"docs-semantic-search": Paged<typeof docsOutput>;
+	"export-subgraph": Output<typeof diagramOutput>;
+	"file-outline": Paged<typeof outlineOutput>;
+	"find-direct-connections": Paged<typeof subgraphOutput>;
+	"find-path": Paged<typeof pathsOutput>;
+	"folder-tree-structure": Paged<typeof treeOutput>;
+	"get-code": Paged<typeof nodesOutput>;
+	"get-code-batch": Paged<typeof codeBatchOutput>;
+	"get-usage-dependency-links": Paged<typeof subgraphOutput>;
+	"list-graphs": Paged<typeof listGraphsOutput>;
+	"nodes-semantic-search": Paged<typeof nodesOutput>;
+	"select-graph": Output<typeof selectedGraphOutput>;
+	"traverse-graph": Paged<typeof traversalOutput>;
+};
+
+type ToolOutput<Name extends string> = Name extends keyof ToolOutputs ? ToolOutputs[Name] : Record<string, unknown>;
+
+/**
+ * Result of a call to the tool `Name`, its structured content typed by the tool's output schema
+ */
+export type ToolResult<Name extends string> = CallToolResult & { structuredContent?: ToolOutput<Name> };
+
+export const callTool = async <Name extends string>(client: Client, name: Name, args: Record<string, unknown> = {}): Promise<ToolResult<Name>> =>
+	(await client.callTool({ name, arguments: args })) as ToolResult<Name>;
+
+export const textOf = (result: CallToolResult): string =>
+	result.content.map(content => content.type === "text" ? content.text : "").join("\n");
+
+type ToolData<Name extends string> = Required<Omit<ToolOutput<Name>, "error">> & { error?: { kind: string; message: string } };
+
+/**
+ * Structured content of a successful call. Output schemas leave every field
+ * optional so that errors validate too; here the fields of a successful call
+ * are taken as present, and a test reading a missing one fails on it.
+ * `error` stays optional.
+ */
+export const dataOf = <Name extends string>(result: ToolResult<Name>): ToolData<Name> => {
+	if (!result.structuredContent) {
+		throw new Error(`The result has no structured content: ${textOf(result)}`);
+	}
+	return result.structuredContent as unknown as ToolData<Name>;
+};
+
+/**
+ * Kind and message of a failed call
+ */
+export const errorOf = (result: CallToolResult): { kind: string; message: string } => {
+	const { error } = dataOf(result);
+	if (!error) {
+		throw new Error(`The call did not fail: ${textOf(result)}`);
+	}
+	return error;
+};
+
+export const toolNames = async (client: Client): Promise<string[]> =>
+	(await client.listTools()).tools.map(tool => tool.name).sort();
@@ -0,0 +1,292 @@
+import { readFileSync } from "fs";
+import { createServer, IncomingMessage, ServerResponse } from "http";
+import type { AddressInfo } from "net";
+import { fileURLToPath } from "url";
+
+/**
+ * Local stand-in for the CodeGPT graph API (`/mcp/graphs/*`), answering from
+ * fixture graphs in the same text formats as the hosted API. Graphs are
+ * addressed by ID (requires the fixture API key) or by public repository.
+ * Failures of the hosted API (rate limits, server errors, slow answers) can
+ * be scripted per endpoint with `fail`.
+ */
+
+// ============================================================================
+// Fixtures
+// ============================================================================
+
+export type FixtureNode = {
+	path: string;
+	name: string;
+	description: string;
+	code: string;
+};
+
+export type FixtureGraph = {
+	id: string;
+	name: string;
+	branch: string;
+	description: string;
+	repoUrl: string;
+	nodes: FixtureNode[];
+	/** `[caller, callee]` node IDs (`path::name`) */
+	calls: [string, string][];
+	docs: { title: string; path: string; content: string }[];
+};
+
+export type Fixtures = {
+	apiKey: string;
+	graphs: FixtureGraph[];
+};
+
+export const DEFAULT_FIXTURES = fileURLToPath(new URL("../fixtures/graphs.json", import.meta.url));
+
+export const loadFixtures = (path = DEFAULT_FIXTURES): Fixtures => JSON.parse(readFileSync(path, "utf8"));
+
+const nodeId = (node: FixtureNode): string => `${node.path}::${node.name}`;
+
+const words = (text: string): string[] => text.toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length > 2);
+
+// Share of the query words found in the text, rounded like the hosted API scores
+const scoreOf = (query: string, text: string): number => {
+	const wanted = words(query);
+	const found = new Set(words(text));
+	return wanted.length ? Math.round((wanted.filter(word => found.has(word)).length / wanted.length) * 100) / 100 : 0;
+};
+
+// ============================================================================
+// Responses
+// ============================================================================
+
+class HttpError extends Error {
+	constructor(readonly status: number, message: string) {
+		super(message);
+	}
+}
+
+const findNode = (graph: FixtureGraph, name: string, path?: string): FixtureNode => {
+	const node = graph.nodes.find(candidate => candidate.name === name && (!path || candidate.path === path));
+	if (!node) {
+		throw new HttpError(404, `Functionality '${name}' not found in ${graph.name}`);
+	}
+	return node;
+};
+
+const directConnections = (graph: FixtureGraph, node: FixtureNode): string => {
+	const id = nodeId(node);
+	const callees = graph.calls.filter(([caller]) => caller === id).map(([, callee]) => callee);
+	const callers = graph.calls.filter(([, callee]) => callee === id).map(([caller]) => caller);
+	return [
+		`Functionality: ${id}`,
+		"Calls:",
+		...(callees.length ? callees.map(callee => `- ${callee}`) : ["(none)"]),
+		"Called by:",
+		...(callers.length ? callers.map(caller => `- ${caller}`) : ["(none)"]),
+	].join("\n");
+};
+
+// Every functionality depending on the node, directly or transitively, as `dependent -> dependency` lines
+const usageLinks = (graph: FixtureGraph, node: FixtureNode): string => {
+	const lines: string[] = [];
+	const seen = new Set([nodeId(node)]);
+	const queue = [nodeId(node)];
+	while (queue.length) {
+		const current = queue.shift()!;
+		for (const [caller] of graph.calls.filter(([, callee]) => callee === current)) {
+			lines.push(`${caller} -> ${current}`);
+			if (!seen.has(caller)) {
+				seen.add(caller);
+				queue.push(caller);
+			}
+		}
+	}
+	return lines.length ? lines.join("\n") : `No usages of ${nodeId(node)}`;
+};
+
+const semanticSearch = (graph: FixtureGraph, query: string): string =>
+	graph.nodes
+		.map(node => ({ node, score: scoreOf(query, `${node.name} ${node.path} ${node.description}`) }))
+		.filter(({ score }) => score > 0)
+		.sort((a, b) => b.score - a.score)
+		.map(({ node, score }) => `${nodeId(node)} score: ${score} - ${node.description}`)
+		.join("\n");
+
+const docsSearch = (graph: FixtureGraph, query: string) =>
+	graph.docs
+		.map(doc => ({ ...doc, score: scoreOf(query, `${doc.title} ${doc.content}`) }))
+		.filter(({ score }) => score > 0)
+		.sort((a, b) => b.score - a.score);
+
+// Indented tree of the files under `folder`, folders marked with a trailing slash
+const folderTree = (graph: FixtureGraph, folder: string): string => {
+	const prefix = folder.replace(/^\.?\/*|\/+$/g, "");
+	const files = [...new Set(graph.nodes.map(node => node.path))]
+		.filter(path => !prefix || path.startsWith(`${prefix}/`))
+		.map(path => prefix ? path.slice(prefix.length + 1) : path)
+		.sort();
+	if (!files.length) {
+		throw new HttpError(404, `Folder '${folder}' not found in ${graph.name}`);
+	}
+
+	const lines: string[] = [];
+	const printed = new Set<string>();
+	for (const file of files) {
+		const parts = file.split("/");
+		parts.forEach((part, depth) => {
+			const key = parts.slice(0, depth + 1).join("/");
+			if (printed.has(key)) return;
+			printed.add(key);
+			lines.push(`${"  ".repeat(depth)}${part}${depth < parts.length - 1 ? "/" : ""}`);
+		});
+	}
+	return lines.join("\n");
+};
+
+// ============================================================================
+// Server
+// ============================================================================
+
+export type RecordedRequest = {
+	method: string;
+	path: string;
+	body: Record<string, unknown>;
+};
+
+/**
+ * One scripted misbehaviour of a graph endpoint
+ */
+export type Failure = {
+	/** Wait this long before answering, e.g. to outlast the client's timeout */
+	delayMs?: number;
+	/** Answer with this status instead of the graph data */
+	status?: number;
+	/** Retry-After header sent with the status, in seconds */
+	retryAfter?: number;
+};
+
+export type MockCodeGPT = {
+	/** API base URL, to pass as --api-base / CODEGPT_API_BASE */
+	url: string;
+	fixtures: Fixtures;
+	/** Every request received, oldest first */
+	requests: RecordedRequest[];
+	/** Answer the next calls to a graph endpoint (e.g. 'get-code') with these failures, one per call */
+	fail(tool: string, ...failures: Failure[]): void;
+	close(): Promise<void>;
+};
+
+const readBody = async (req: IncomingMessage): Promise<Record<string, unknown>> => {
+	const chunks: Buffer[] = [];
+	for await (const chunk of req) chunks.push(chunk as Buffer);
+	const text = Buffer.concat(chunks).toString("utf8");
+	if (!text) return {};
+	try {
+		return JSON.parse(text);
+	} catch {
+		throw new HttpError(400, "Body is not valid JSON");
+	}
+};
+
+const send = (res: ServerResponse, status: number, data: unknown, headers: Record<string, string> = {}): void => {
+	res.writeHead(status, { ...headers, "content-type": "application/json" });
+	res.end(JSON.stringify(data));
+};
+
+/**
+ * Start the mock API on `port` (0 for any free port) on the loopback interface
+ */
+export const startMockCodeGPT = async ({ fixtures = loadFixtures(), port = 0 }: { fixtures?: Fixtures; port?: number } = {}): Promise<MockCodeGPT> => {
+	const requests: RecordedRequest[] = [];
+	const failures = new Map<string, Failure[]>();
+
+	const authorized = (req: IncomingMessage): boolean =>
+		req.headers.authorization === `Bearer ${fixtures.apiKey}`;
+
+	// Graphs are private by ID and public by repository
+	const resolveGraph = (req: IncomingMessage, body: Record<string, unknown>): FixtureGraph => {
+		if (typeof body.repoUrl === "string" && body.repoUrl) {
+			const graph = fixtures.graphs.find(candidate => candidate.repoUrl === body.repoUrl);
+			if (!graph) throw new HttpError(404, `Repository '${body.repoUrl}' not found`);
+			return graph;
+		}
+		if (!authorized(req)) throw new HttpError(401, "Invalid API key");
+		const graph = fixtures.graphs.find(candidate => candidate.id === body.graphId);
+		if (!graph) throw new HttpError(404, `Graph '${body.graphId}' not found`);
+		return graph;
+	};
+
+	const handle = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+		const path = new URL(req.url ?? "/", "http://localhost").pathname.replace(/^\/api\/v1/, "").replace(/\/+$/, "");
+		const body = req.method === "POST" ? await readBody(req) : {};
+		requests.push({ method: req.method ?? "GET", path, body });
+
+		if (req.method === "GET" && path === "") {
+			return send(res, 200, { status: "ok" });
+		}
+		if (req.method === "GET" && path === "/mcp/graphs") {
+			if (!authorized(req)) throw new HttpError(401, "Invalid API key");
+			return send(res, 200, fixtures.graphs.map(({ id, name, branch, description }) => ({ id, name, branch, description })));
+		}
+
+		const tool = req.method === "POST" ? path.match(/^\/mcp\/graphs\/([\w-]+)$/)?.[1] : undefined;
+		if (!tool) throw new HttpError(404, `No route for ${req.method} ${path}`);
+
+		const failure = failures.get(tool)?.shift();
+		if (failure?.delayMs) {
+			await new Promise(resolve => setTimeout(resolve, failure.delayMs));
+		}
+		if (failure?.status) {
+			const headers: Record<string, string> = failure.retryAfter === undefined ? {} : { "retry-after": String(failure.retryAfter) };
+			return send(res, failure.status, { message: `Scripted failure of ${tool}` }, headers);
+		}
+
+		const graph = resolveGraph(req, body);
+		const name = String(body.name ?? "");
+		const nodePath = typeof body.path === "string" && body.path ? body.path : undefined;
+		const query = String(body.query ?? "");
+
+		switch (tool) {
+			case "get-code":
+				return send(res, 200, { content: findNode(graph, name, nodePath).code });
+			case "find-direct-connections":
+				return send(res, 200, { content: directConnections(graph, findNode(graph, name, nodePath)) });
+			case "get-usage-dependency-links":
+				return send(res, 200, { content: usageLinks(graph, findNode(graph, name, nodePath)) });
+			case "nodes-semantic-search":
+				return send(res, 200, { content: semanticSearch(graph, query) });
+			case "docs-semantic-search":
+				return send(res, 200, docsSearch(graph, query));
+			case "folder-tree-structure":
+				return send(res, 200, { content: folderTree(graph, String(body.path ?? "")) });
+			default:
+				throw new HttpError(404, `Unknown graph endpoint '${tool}'`);
+		}
+	};
+
+	const server = createServer((req, res) => {
+		handle(req, res).catch(error => {
+			const status = error instanceof HttpError ? error.status : 500;
+			send(res, status, { message: error instanceof Error ? error.message : String(error) });
+		});
+	});
+
+	await new Promise<void>(resolve => server.listen(port, "127.0.0.1", resolve));
+	const { port: actualPort } = server.address() as AddressInfo;
+
+	return {
+		url: `http://127.0.0.1:${actualPort}/api/v1`,
+		fixtures,
+		requests,
+		fail: (tool, ...scripted) => failures.set(tool, [...(failures.get(tool) ?? []), ...scripted]),
+		close: () => new Promise<void>((resolve, reject) => {
+			server.closeAllConnections();
+			server.close(error => error ? reject(error) : resolve());
+		}),
+	};
+};
+
+// Run standalone for manual testing: `npm run mock:codegpt`
+if (import.meta.url === `file://${process.argv[1]}`) {
+	const mock = await startMockCodeGPT({ port: parseInt(process.env.MOCK_PORT || "4010", 10) });
+	process.stderr.write(`Mock CodeGPT API listening at ${mock.url} (API key ${mock.fixtures.apiKey})\n`);
+}